@@ -0,0 +1,223 @@
+/**
+ * Service worker caching the app shell so the app opens without a connection,
+ * and showing daily goal reminders (at the end of this file).
+ * API requests are never cached here: downloaded task sets live in IndexedDB
+ * and answers given offline go through the answer outbox.
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `assets-${CACHE_VERSION}`;
+
+const SHELL_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/favicon.ico',
+  '/icon-192.png',
+  '/icon-512.png'
+];
+
+// Written by the build (build.manifest in vite.config.ts)
+const ASSET_MANIFEST_URL = '/asset-manifest.json';
+
+// Cache every bundle of the current build, including lazily loaded chunks, so
+// the shell has its JS and CSS offline even if they never went through the worker
+const precacheBuildAssets = async () => {
+  try {
+    const response = await fetch(ASSET_MANIFEST_URL, { cache: 'no-store' });
+    if (!response.ok) return; // Development server
+    const manifest = await response.json();
+
+    const files = new Set();
+    Object.values(manifest).forEach((chunk) => {
+      [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])].forEach((file) => files.add(`/${file}`));
+    });
+
+    const cache = await caches.open(ASSET_CACHE);
+    await Promise.all([...files].map(async (file) => {
+      if (!(await cache.match(file))) {
+        await cache.add(file);
+      }
+    }));
+  } catch (error) {
+    console.warn('Failed to precache build assets:', error);
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(precacheBuildAssets)
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drop caches of previous versions
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== ASSET_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages: network first so deploys show up, falling back to the cached shell.
+// A fresh page may belong to a new deploy, whose bundles are cached as well.
+const handleNavigation = async (event) => {
+  const { request } = event;
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+      event.waitUntil(precacheBuildAssets());
+    }
+    return response;
+  } catch (error) {
+    // Every route is rendered by the same index.html
+    const cached = await caches.match('/index.html');
+    return cached || Response.error();
+  }
+};
+
+// Build output is content-hashed, so a cached file never goes stale
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+  } else if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+  }
+});
+
+/*
+ * Daily goal reminders. The app posts the reminder schedule (see
+ * src/api/goalReminders.ts); it is kept in IndexedDB so periodic syncs can
+ * check it after the worker has been restarted. The worker is stopped soon
+ * after it goes idle, so it only checks when a schedule is posted or a
+ * periodic sync wakes it; the open app shows reminders that fall due while
+ * it is open. With the app closed, reminders depend on periodic sync.
+ */
+
+const REMINDER_DB = 'nepali_sw';
+const REMINDER_STORE = 'settings';
+const REMINDER_KEY = 'goal-reminder';
+
+const openReminderDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(REMINDER_DB, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(REMINDER_STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const reminderStore = async (mode, run) => {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(REMINDER_STORE, mode).objectStore(REMINDER_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const loadReminder = () => reminderStore('readonly', (store) => store.get(REMINDER_KEY));
+const saveReminder = (schedule) => reminderStore('readwrite', (store) => store.put(schedule, REMINDER_KEY));
+const clearReminder = () => reminderStore('readwrite', (store) => store.delete(REMINDER_KEY));
+
+const toDayKey = (date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Show today's reminder if it is due and hasn't been shown yet
+const checkReminder = async () => {
+  const schedule = await loadReminder();
+  if (!schedule || !schedule.enabled || Notification.permission !== 'granted') return;
+
+  const now = new Date();
+  const today = toDayKey(now);
+  // The schedule only knows about the day the app last reported
+  const goalMet = schedule.day === today && schedule.goalMet;
+  if (goalMet || schedule.notifiedDay === today) return;
+
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  const dueAt = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+
+  if (now < dueAt) return;
+
+  await self.registration.showNotification(schedule.title, {
+    body: schedule.body,
+    icon: '/icon-192.png',
+    badge: '/icon-192.png',
+    tag: REMINDER_KEY,
+    data: { url: schedule.url }
+  });
+  await saveReminder({ ...schedule, notifiedDay: today });
+};
+
+self.addEventListener('message', (event) => {
+  switch (event.data?.type) {
+    case 'goal-reminder':
+      event.waitUntil(
+        loadReminder()
+          // Keep track of a reminder already shown today
+          .then((previous) => saveReminder({ ...event.data.schedule, notifiedDay: previous?.notifiedDay }))
+          .then(checkReminder)
+      );
+      break;
+    // Shown by the open app
+    case 'goal-reminder-shown':
+      event.waitUntil(
+        loadReminder().then((schedule) => schedule && saveReminder({ ...schedule, notifiedDay: event.data.day }))
+      );
+      break;
+    // The user signed out
+    case 'goal-reminder-clear':
+      event.waitUntil(clearReminder());
+      break;
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'daily-goal-reminder') {
+    event.waitUntil(checkReminder());
+  }
+});
+
+// Bring the app to the front, or open it, when a reminder is clicked
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => new URL(client.url).pathname === url);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -3,7 +3,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { Provider as ReduxProvider } from 'react-redux';
 import { store } from './redux/store';
 import Index from "./pages/Index";
@@ -11,9 +11,17 @@ import SlugLogin from "./pages/SlugLogin";
 import DashboardPage from "./pages/DashboardPage";
 import BeginLearningPage from "./pages/Learning/BeginLearningPage";
 import TaskView from "./pages/Learning/TaskView";
+import ReviewPage from "./pages/Learning/ReviewPage";
+import VocabularyPage from "./pages/Learning/VocabularyPage";
+import ProgressPage from "./pages/Learning/ProgressPage";
+import ProfilePage from "./pages/Learning/ProfilePage";
 import TaskPage from "./pages/Task/TaskPage";
 import NotFound from "./pages/NotFound";
 import { AuthProvider } from "./context/AuthContext";
+import ProtectedRoute from "./components/ProtectedRoute";
+import TenantRoute from "./components/TenantRoute";
+import LegacyTenantRedirect from "./components/LegacyTenantRedirect";
+import { RECORDING_ROLES } from "./lib/roles";
 
 const queryClient = new QueryClient();
 
@@ -27,11 +35,28 @@ const App = () => (
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
-              <Route path="/:slug/login" element={<SlugLogin />} />
-              <Route path="/dashboard" element={<DashboardPage />} />
-              <Route path="/begin-learning" element={<BeginLearningPage />} />
-              <Route path="/tasks/:taskSetId" element={<TaskView />} />
-              <Route path="/tasks" element={<TaskPage />} />
+              {/* Pre-tenant URLs, redirected under the last used tenant */}
+              <Route path="/dashboard" element={<LegacyTenantRedirect />} />
+              <Route path="/begin-learning" element={<LegacyTenantRedirect />} />
+              <Route path="/tasks/:taskSetId" element={<LegacyTenantRedirect />} />
+              <Route path="/tasks" element={<LegacyTenantRedirect />} />
+              <Route path="/:slug" element={<TenantRoute />}>
+                <Route index element={<Navigate to="dashboard" replace />} />
+                <Route path="login" element={<SlugLogin />} />
+                <Route element={<ProtectedRoute />}>
+                  <Route path="dashboard" element={<DashboardPage />} />
+                  <Route path="tasks/:taskSetId" element={<TaskView />} />
+                  <Route path="tasks" element={<TaskPage />} />
+                  <Route path="review" element={<ReviewPage />} />
+                  <Route path="vocabulary" element={<VocabularyPage />} />
+                  <Route path="progress" element={<ProgressPage />} />
+                  <Route path="profile" element={<ProfilePage />} />
+                </Route>
+                {/* Creating task sets from recordings can be limited to some roles */}
+                <Route element={<ProtectedRoute allowedRoles={RECORDING_ROLES} />}>
+                  <Route path="begin-learning" element={<BeginLearningPage />} />
+                </Route>
+              </Route>
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -0,0 +1,183 @@
+import { TaskSetScoreRecord } from "@/lib/achievements";
+import { getStoredOwner } from "./authStorage";
+import { fetchTaskSets } from "./taskListService";
+import { fetchTestScores } from "./taskService";
+
+/**
+ * Task set scores and unlocked badges of the signed-in user, kept in
+ * localStorage per tenant and user as `achievements:<slug>:<userId>`
+ */
+export const ACHIEVEMENTS_STORAGE_KEY = "achievements";
+
+export interface AchievementsState {
+  scores: Record<string, TaskSetScoreRecord>; // By task set id
+  unlocked: Record<string, number>; // Unlock time by badge id
+  announcedLevel: number; // Highest level the learner was told about
+  backfilledAt?: number; // When scores of earlier task sets were fetched
+}
+
+// Task sets fetched per page when backfilling scores
+const BACKFILL_PAGE_SIZE = 50;
+
+const emptyState = (): AchievementsState => ({ scores: {}, unlocked: {}, announcedLevel: 1 });
+
+type AchievementsListener = (state: AchievementsState) => void;
+
+const listeners = new Set<AchievementsListener>();
+
+/**
+ * Subscribe to score and badge changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToAchievements = (listener: AchievementsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const storageKey = (): string | null => {
+  const owner = getStoredOwner();
+  return owner ? `${ACHIEVEMENTS_STORAGE_KEY}:${owner.tenantSlug}:${owner.userId}` : null;
+};
+
+/**
+ * Achievements of the signed-in user
+ */
+export const loadAchievements = (): AchievementsState => {
+  const key = storageKey();
+  const stored = key && localStorage.getItem(key);
+  if (!stored) return emptyState();
+
+  try {
+    return { ...emptyState(), ...(JSON.parse(stored) as AchievementsState) };
+  } catch (error) {
+    console.error("Failed to parse achievements:", error);
+    localStorage.removeItem(key);
+    return emptyState();
+  }
+};
+
+const updateAchievements = (update: (state: AchievementsState) => void): AchievementsState => {
+  const key = storageKey();
+  const state = loadAchievements();
+  if (!key) return state;
+
+  update(state);
+  localStorage.setItem(key, JSON.stringify(state));
+  listeners.forEach((listener) => listener(state));
+  return state;
+};
+
+// Score requests in flight by task set; answers checked in a batch share one
+const pendingSyncs = new Map<string, Promise<void>>();
+const queuedSyncs = new Set<string>();
+
+/**
+ * Fetch the scores of a task set and keep the best score of each task. Calls
+ * made while a request for the set is in flight are coalesced into one more.
+ */
+export const syncTaskSetScores = (taskSetId: string): Promise<void> => {
+  const pending = pendingSyncs.get(taskSetId);
+  if (pending) {
+    queuedSyncs.add(taskSetId);
+    return pending;
+  }
+
+  const sync = fetchAndStoreScores(taskSetId).finally(() => {
+    pendingSyncs.delete(taskSetId);
+    if (queuedSyncs.delete(taskSetId)) {
+      syncTaskSetScores(taskSetId).catch((error) => console.warn("Failed to refresh task set scores:", error));
+    }
+  });
+  pendingSyncs.set(taskSetId, sync);
+  return sync;
+};
+
+const fetchAndStoreScores = async (taskSetId: string): Promise<void> => {
+  const scores = await fetchTestScores(taskSetId);
+  if (!scores) return;
+
+  updateAchievements((state) => {
+    const previous = state.scores[taskSetId];
+    const taskScores = { ...previous?.taskScores };
+    (scores.tasks || []).forEach((task) => {
+      taskScores[task.task_id] = Math.max(taskScores[task.task_id] || 0, task.score || 0);
+    });
+
+    state.scores[taskSetId] = {
+      maxScore: scores.max_score || previous?.maxScore || 0,
+      scored: Math.max(scores.scored || 0, previous?.scored || 0),
+      taskScores
+    };
+  });
+};
+
+let backfill: Promise<void> | null = null;
+
+/**
+ * Fetch the scores of every task set the learner has scored on, once per user,
+ * so XP covers answers given before achievements existed or on other devices
+ */
+export const backfillTaskSetScores = (): Promise<void> => {
+  if (!backfill) {
+    backfill = runBackfill().finally(() => {
+      backfill = null;
+    });
+  }
+  return backfill;
+};
+
+const runBackfill = async (): Promise<void> => {
+  const key = storageKey();
+  if (!key || loadAchievements().backfilledAt) return;
+
+  for (let page = 1; ; page++) {
+    const response = await fetchTaskSets({ page, limit: BACKFILL_PAGE_SIZE, sort_by: "created_at", sort_order: 1 });
+    for (const taskSet of response.items) {
+      // Stop if another user signed in meanwhile
+      if (storageKey() !== key) return;
+      // Sets without points add no XP
+      if (!taskSet.scored) continue;
+      try {
+        await syncTaskSetScores(taskSet._id);
+      } catch (error) {
+        // A set whose scores can't be fetched, e.g. a deleted one, doesn't hold up the rest
+        console.warn(`Failed to fetch scores of task set ${taskSet._id} for XP:`, error);
+      }
+    }
+    if (page >= response.pages || response.items.length === 0) break;
+  }
+
+  if (storageKey() !== key) return;
+  updateAchievements((state) => {
+    state.backfilledAt = Date.now();
+  });
+};
+
+/**
+ * Mark badges as unlocked
+ * @returns Ids of the badges that weren't unlocked before
+ */
+export const unlockBadges = (badgeIds: string[]): string[] => {
+  const unlocked = loadAchievements().unlocked;
+  const newIds = badgeIds.filter((id) => !unlocked[id]);
+  if (newIds.length === 0) return [];
+
+  const now = Date.now();
+  updateAchievements((state) => {
+    newIds.forEach((id) => {
+      state.unlocked[id] = now;
+    });
+  });
+  return newIds;
+};
+
+/**
+ * Remember the level the learner was told about
+ */
+export const setAnnouncedLevel = (level: number): void => {
+  updateAchievements((state) => {
+    state.announcedLevel = level;
+  });
+};
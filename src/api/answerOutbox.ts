@@ -0,0 +1,236 @@
+import { toast } from "@/hooks/use-toast";
+import { openDatabase, requestToPromise } from "@/lib/indexedDb";
+import { getStoredOwner } from "./authStorage";
+import { isNetworkError, toApiError } from "./httpBase";
+import { uploadAudioFile } from "./fileService";
+import { recordAnsweredTask } from "./practiceHistory";
+import { submitTaskAnswer, TaskAnswerResult } from "./taskService";
+
+/**
+ * Outbox for task answers submitted while offline. Answers are kept in
+ * IndexedDB (recordings included, as blobs) and replayed in the order they
+ * were given once the connection is back.
+ */
+
+const OUTBOX_DB_NAME = "nepali_outbox";
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = "answers";
+
+/**
+ * A speak_word recording that still has to be uploaded. The submitted answer
+ * becomes the uploaded file's `{ object_name, folder }`.
+ */
+export interface PendingAudioAnswer {
+  pending_audio: Blob;
+  folder: string;
+}
+
+export const isPendingAudioAnswer = (answer: unknown): answer is PendingAudioAnswer =>
+  !!answer && typeof answer === "object" && (answer as PendingAudioAnswer).pending_audio instanceof Blob;
+
+export interface AnswerSubmission {
+  taskId: string;
+  taskType: string;
+  answer: unknown;
+  taskSetId?: string; // Lets the task view pick up results that sync while it is open
+}
+
+export interface OutboxEntry extends AnswerSubmission {
+  id?: number; // Auto-incremented, which keeps entries in submission order
+  tenantSlug: string;
+  userId: string;
+  createdAt: number;
+}
+
+/**
+ * An outbox answer that reached the server
+ */
+export interface SyncedAnswer {
+  taskId: string;
+  taskSetId?: string;
+  answer: unknown;
+  result: TaskAnswerResult;
+}
+
+export type OutboxEvent =
+  | { type: "changed" }
+  | { type: "synced"; answers: SyncedAnswer[] };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+const listeners = new Set<OutboxListener>();
+
+const notify = (event: OutboxEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+/**
+ * Subscribe to queued, removed and synced answers
+ * @returns Unsubscribe function
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase(OUTBOX_DB_NAME, OUTBOX_DB_VERSION, (db) => {
+      db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await getDatabase();
+  return requestToPromise(run(db.transaction(OUTBOX_STORE, mode).objectStore(OUTBOX_STORE)));
+};
+
+/**
+ * Queued answers of the signed-in user, oldest first
+ */
+export const listOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const owner = getStoredOwner();
+  if (!owner) return [];
+
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.tenantSlug === owner.tenantSlug && entry.userId === owner.userId)
+    .sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Queue an answer to be submitted once the connection is back
+ */
+export const enqueueAnswer = async (submission: AnswerSubmission): Promise<OutboxEntry> => {
+  // Entries belong to the signed-in user, whose token replays them
+  const owner = getStoredOwner();
+  if (!owner) {
+    throw new Error("Cannot queue an answer without a signed-in user");
+  }
+
+  const entry: OutboxEntry = { ...submission, ...owner, createdAt: Date.now() };
+  entry.id = Number(await withStore("readwrite", (store) => store.add(entry)));
+  notify({ type: "changed" });
+  return entry;
+};
+
+const removeEntry = async (id: number): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(id));
+  notify({ type: "changed" });
+};
+
+const updateEntry = async (entry: OutboxEntry): Promise<void> => {
+  await withStore("readwrite", (store) => store.put(entry));
+};
+
+/**
+ * Submit one queued answer, uploading its recording first if it has one
+ */
+const replayEntry = async (entry: OutboxEntry): Promise<SyncedAnswer> => {
+  if (isPendingAudioAnswer(entry.answer)) {
+    const fileInfo = await uploadAudioFile(entry.answer.pending_audio, { folder: entry.answer.folder });
+    // Keep the upload so a failed submit doesn't upload the recording twice
+    entry.answer = { object_name: fileInfo.object_name, folder: fileInfo.folder || entry.answer.folder };
+    await updateEntry(entry);
+  }
+
+  const result = await submitTaskAnswer(entry.taskId, entry.answer, entry.taskType);
+  recordAnsweredTask({ ...entry, result, answeredAt: entry.createdAt });
+  return { taskId: entry.taskId, taskSetId: entry.taskSetId, answer: entry.answer, result };
+};
+
+let flushPromise: Promise<SyncedAnswer[]> | null = null;
+let flushRequested = false; // Another replay was asked for while one was running
+
+const performFlush = async (): Promise<SyncedAnswer[]> => {
+  const synced: SyncedAnswer[] = [];
+
+  for (const entry of await listOutboxEntries()) {
+    try {
+      synced.push(await replayEntry(entry));
+      await removeEntry(entry.id);
+    } catch (error) {
+      const apiError = toApiError(error);
+
+      // Still offline or signed out: keep this and every later answer, in order, for the next attempt
+      if (isNetworkError(apiError) || apiError.status === 401) {
+        console.warn("Outbox replay stopped:", apiError.message);
+        break;
+      }
+
+      // The server rejected the answer; retrying it would fail the same way
+      console.error(`Dropping queued answer for task ${entry.taskId}:`, apiError);
+      await removeEntry(entry.id);
+      toast({
+        title: "An offline answer could not be submitted",
+        description: apiError.message,
+        variant: "destructive"
+      });
+    }
+  }
+
+  if (synced.length > 0) {
+    notify({ type: "synced", answers: synced });
+  }
+  return synced;
+};
+
+/**
+ * Replay the queued answers in order. Concurrent callers share one replay;
+ * answers queued while it runs are replayed right after it.
+ * @returns The answers that reached the server
+ */
+export const flushOutbox = (): Promise<SyncedAnswer[]> => {
+  if (flushPromise) {
+    flushRequested = true;
+    return flushPromise;
+  }
+
+  flushPromise = performFlush().finally(() => {
+    flushPromise = null;
+    if (flushRequested) {
+      flushRequested = false;
+      flushOutbox();
+    }
+  });
+  return flushPromise;
+};
+
+export type SubmitOutcome =
+  | { status: "submitted"; result: TaskAnswerResult }
+  | { status: "queued"; entry: OutboxEntry };
+
+/**
+ * Submit an answer, or queue it when offline. Answers also queue behind ones
+ * that are already waiting so the server receives them in order.
+ */
+export const submitOrQueueAnswer = async (submission: AnswerSubmission): Promise<SubmitOutcome> => {
+  const hasQueue = (await listOutboxEntries().catch(() => [])).length > 0;
+
+  if (!navigator.onLine || hasQueue || isPendingAudioAnswer(submission.answer)) {
+    const entry = await enqueueAnswer(submission);
+    if (navigator.onLine) {
+      flushOutbox();
+    }
+    return { status: "queued", entry };
+  }
+
+  try {
+    const result = await submitTaskAnswer(submission.taskId, submission.answer, submission.taskType);
+    // Kept for the progress page; missed tasks also come back in the review queue
+    recordAnsweredTask({ ...submission, result });
+    return { status: "submitted", result };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return { status: "queued", entry: await enqueueAnswer(submission) };
+  }
+};
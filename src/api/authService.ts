@@ -1,22 +1,22 @@
-
 import { UserData, LoginResponse } from "../types/User";
+import { requestData, toApiError, TokenResponse } from "./httpBase";
+import { getTokenExpiresAt } from "./authStorage";
+import { fetchTenantConfig } from "./tenantService";
 
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000/v1";
+/**
+ * Response of POST /login (OAuth2 password grant)
+ */
+export interface LoginApiResponse extends TokenResponse {
+  id: string;
+  username: string;
+  role: string;
+  tenant_slug?: string;
+  tenant_id?: string;
+  tenant_label?: string;
+}
 
 export const validateTenant = async (slug: string): Promise<boolean> => {
-  try {
-    const response = await fetch(`${API_URL}/get_tenant_id?slug=${slug}`);
-
-    if (!response.ok) {
-      return false;
-    }
-
-    const data = await response.json();
-    return !!data.tenant_id;
-  } catch (error) {
-    console.error("Error validating tenant:", error);
-    return false;
-  }
+  return !!(await fetchTenantConfig(slug));
 };
 
 export const loginUser = async (
@@ -33,25 +33,13 @@ export const loginUser = async (
     formData.append('scope', '');
     formData.append('client_id', tenantSlug);
 
-    const response = await fetch(`${API_URL}/login`, {
+    const data = await requestData<LoginApiResponse>({
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'accept': 'application/json'
-      },
-      body: formData.toString(),
+      url: '/login',
+      data: formData,
+      skipAuth: true
     });
 
-    const data = await response.json();
-
-    if (!response.ok) {
-      return {
-        success: false,
-        message: data.detail || 'Login failed',
-        user: null
-      };
-    }
-
     // Transform backend response to match our UserData type
     const userData: UserData = {
       id: data.id,
@@ -59,7 +47,9 @@ export const loginUser = async (
       email: data.username, // Using username as email since the backend doesn't return email
       role: data.role,
       token: data.access_token,
-      tenantSlug: data.tenant_slug,
+      refreshToken: data.refresh_token,
+      tokenExpiresAt: getTokenExpiresAt(data.expires_in),
+      tenantSlug: data.tenant_slug || tenantSlug,
       tenantId: data.tenant_id,
       tenantLabel: data.tenant_label,
       tokenType: data.token_type,
@@ -73,9 +63,10 @@ export const loginUser = async (
     };
   } catch (error) {
     console.error("Login error:", error);
+    const apiError = toApiError(error);
     return {
       success: false,
-      message: 'An error occurred during login',
+      message: apiError.status ? apiError.message || 'Login failed' : 'An error occurred during login',
       user: null
     };
   }
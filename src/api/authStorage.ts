@@ -0,0 +1,134 @@
+import { UserData } from "../types/User";
+
+/**
+ * localStorage keys shared by the API client and AuthContext.
+ * Sessions are stored per tenant as `nepali_user:<slug>` so several tenants
+ * can stay signed in side by side.
+ */
+export const USER_STORAGE_KEY = "nepali_user";
+export const TENANT_SLUG_STORAGE_KEY = "tenant_slug";
+
+const userStorageKey = (slug: string) => `${USER_STORAGE_KEY}:${slug}`;
+
+// Tenant of the current tab, driven by the URL; localStorage only remembers the last one used
+let activeTenantSlug: string | null = localStorage.getItem(TENANT_SLUG_STORAGE_KEY);
+
+export const getActiveTenantSlug = (): string | null => {
+  return activeTenantSlug;
+};
+
+export const setActiveTenantSlug = (slug: string): void => {
+  activeTenantSlug = slug;
+  localStorage.setItem(TENANT_SLUG_STORAGE_KEY, slug);
+};
+
+/**
+ * Move a session saved under the old single-tenant key to its tenant's key
+ */
+const migrateLegacyUser = (): void => {
+  const legacyUser = localStorage.getItem(USER_STORAGE_KEY);
+  if (!legacyUser) return;
+
+  localStorage.removeItem(USER_STORAGE_KEY);
+  try {
+    const user = JSON.parse(legacyUser) as UserData;
+    const slug = user.tenantSlug || activeTenantSlug;
+    if (slug && !localStorage.getItem(userStorageKey(slug))) {
+      localStorage.setItem(userStorageKey(slug), legacyUser);
+    }
+  } catch (error) {
+    console.error("Failed to migrate user data:", error);
+  }
+};
+
+migrateLegacyUser();
+
+/**
+ * Read the persisted user session of a tenant, discarding it if it cannot be parsed
+ * @param slug Tenant slug, defaults to the active tenant
+ */
+export const loadStoredUser = (slug: string | null = activeTenantSlug): UserData | null => {
+  if (!slug) return null;
+
+  const storedUser = localStorage.getItem(userStorageKey(slug));
+  if (!storedUser) return null;
+
+  try {
+    return JSON.parse(storedUser) as UserData;
+  } catch (error) {
+    console.error("Failed to parse user data:", error);
+    localStorage.removeItem(userStorageKey(slug));
+    return null;
+  }
+};
+
+/**
+ * List the tenants that currently have a stored session
+ */
+export const listStoredTenantSlugs = (): string[] => {
+  const prefix = `${USER_STORAGE_KEY}:`;
+  const slugs: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) {
+      slugs.push(key.slice(prefix.length));
+    }
+  }
+  return slugs.sort();
+};
+
+type StoredUserListener = (user: UserData | null, slug: string) => void;
+
+const listeners = new Set<StoredUserListener>();
+
+/**
+ * Subscribe to session changes made outside React (e.g. a token refresh)
+ * @returns Unsubscribe function
+ */
+export const subscribeToStoredUser = (listener: StoredUserListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Persist a session under its tenant, falling back to the active tenant
+ */
+export const storeUser = (user: UserData): void => {
+  const slug = user.tenantSlug || activeTenantSlug;
+  if (!slug) {
+    console.error("Cannot store user data without a tenant slug");
+    return;
+  }
+
+  localStorage.setItem(userStorageKey(slug), JSON.stringify(user));
+  listeners.forEach((listener) => listener(user, slug));
+};
+
+/**
+ * Remove the session of a tenant, leaving other tenants signed in
+ * @param slug Tenant slug, defaults to the active tenant
+ */
+export const clearStoredUser = (slug: string | null = activeTenantSlug): void => {
+  if (!slug) return;
+
+  localStorage.removeItem(userStorageKey(slug));
+  listeners.forEach((listener) => listener(null, slug));
+};
+
+/**
+ * Convert an OAuth `expires_in` (seconds) into an absolute expiry timestamp
+ */
+export const getTokenExpiresAt = (expiresIn?: number): number | undefined => {
+  return expiresIn ? Date.now() + expiresIn * 1000 : undefined;
+};
+
+/**
+ * Signed-in user of the active tenant, for data stored on the device per user
+ */
+export const getStoredOwner = (): { tenantSlug: string; userId: string } | null => {
+  const user = loadStoredUser();
+  const tenantSlug = user?.tenantSlug || activeTenantSlug;
+  return user?.id && tenantSlug ? { tenantSlug, userId: user.id } : null;
+};
@@ -0,0 +1,81 @@
+import { DEFAULT_DAILY_GOAL, DailyGoal, initialStreakState, StreakState } from "@/lib/dailyGoals";
+import { getStoredOwner } from "./authStorage";
+
+/**
+ * Daily goal settings and streak of the signed-in user, kept in localStorage
+ * per tenant and user as `daily_goal:<slug>:<userId>`
+ */
+export const DAILY_GOAL_STORAGE_KEY = "daily_goal";
+
+export interface ReminderSettings {
+  enabled: boolean;
+  time: string; // Local time of day, HH:mm
+}
+
+export interface DailyGoalState {
+  goal: DailyGoal;
+  reminder: ReminderSettings;
+  streak: StreakState;
+}
+
+const defaultState = (): DailyGoalState => ({
+  goal: DEFAULT_DAILY_GOAL,
+  reminder: { enabled: false, time: "19:00" },
+  streak: initialStreakState()
+});
+
+type DailyGoalListener = (state: DailyGoalState) => void;
+
+const listeners = new Set<DailyGoalListener>();
+
+/**
+ * Subscribe to goal, reminder and streak changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToDailyGoal = (listener: DailyGoalListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const storageKey = (): string | null => {
+  const owner = getStoredOwner();
+  return owner ? `${DAILY_GOAL_STORAGE_KEY}:${owner.tenantSlug}:${owner.userId}` : null;
+};
+
+/**
+ * Goal state of the signed-in user, with defaults for anything not set yet
+ */
+export const loadDailyGoalState = (): DailyGoalState => {
+  const key = storageKey();
+  const stored = key && localStorage.getItem(key);
+  if (!stored) return defaultState();
+
+  try {
+    const parsed = JSON.parse(stored) as Partial<DailyGoalState>;
+    const defaults = defaultState();
+    return {
+      goal: { ...defaults.goal, ...parsed.goal },
+      reminder: { ...defaults.reminder, ...parsed.reminder },
+      streak: { ...defaults.streak, ...parsed.streak }
+    };
+  } catch (error) {
+    console.error("Failed to parse daily goal:", error);
+    localStorage.removeItem(key);
+    return defaultState();
+  }
+};
+
+/**
+ * Change part of the goal state of the signed-in user
+ */
+export const updateDailyGoalState = (changes: Partial<DailyGoalState>): DailyGoalState => {
+  const next = { ...loadDailyGoalState(), ...changes };
+  const key = storageKey();
+  if (key) {
+    localStorage.setItem(key, JSON.stringify(next));
+    listeners.forEach((listener) => listener(next));
+  }
+  return next;
+};
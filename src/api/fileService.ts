@@ -1,15 +1,5 @@
-import { UserData } from "../types/User";
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000/v1";
-
-/**
- * Get a file URL by object name and folder
- * @param objectName The name of the file object
- * @param folder The folder path where the file is stored
- * @param user The authenticated user data
- * @returns The file URL
- */
-
+import axios from "axios";
+import { ApiError, requestData, toApiError } from "./httpBase";
 
 export interface FileUploadResponse {
   object_name: string;
@@ -19,28 +9,39 @@ export interface FileUploadResponse {
   size_bytes?: number;
 }
 
+/**
+ * Response of GET /media/file
+ */
+export interface FileUrlResponse {
+  file?: {
+    name: string;
+    url: string;
+    folder: string;
+  };
+}
+
+/**
+ * Response of POST /media/file, which is either nested under `file` or flat
+ */
+type FileUploadApiResponse = FileUploadResponse & { file?: FileUploadResponse };
+
+/**
+ * Get a file URL by object name and folder
+ * @param objectName The name of the file object
+ * @param folder The folder path where the file is stored
+ * @returns The file URL
+ */
 export const getFileUrl = async (
   objectName: string,
-  folder: string,
-  user: UserData
+  folder: string
 ): Promise<string> => {
   try {
-    const response = await fetch(
-      `${API_URL}/media/file?object_name=${encodeURIComponent(objectName)}&folder=${encodeURIComponent(folder)}`,
-      {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `${user.tokenType} ${user.token}`
-        }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch file URL: ${response.statusText}`);
-    }
+    const data = await requestData<FileUrlResponse>({
+      method: 'GET',
+      url: '/media/file',
+      params: { object_name: objectName, folder }
+    });
 
-    const data = await response.json();
     // Handle the response format: {"file":{"name":"filename.mp3","url":"https://...","folder":"folder/path"}}
     if (data.file && data.file.url) {
       return data.file.url;
@@ -56,90 +57,172 @@ export const getFileUrl = async (
 /**
  * Get an audio preview URL from task set input metadata
  * @param inputMetadata The input metadata from a task set
- * @param user The authenticated user data
  * @returns The audio preview URL or null if no audio file info is available
  */
 export const getAudioPreviewUrl = async (
-  inputMetadata: any,
-  user: UserData
+  inputMetadata: { object_name?: string; folder?: string } | null | undefined
 ): Promise<string | null> => {
   try {
     if (!inputMetadata || !inputMetadata.object_name || !inputMetadata.folder) {
       return null;
     }
 
-    return await getFileUrl(inputMetadata.object_name, inputMetadata.folder, user);
+    return await getFileUrl(inputMetadata.object_name, inputMetadata.folder);
   } catch (error) {
     console.error("Error getting audio preview URL:", error);
     return null;
   }
 };
 
+// Largest recording accepted by /media/file
+export const MAX_AUDIO_UPLOAD_BYTES = (Number(import.meta.env.VITE_MAX_AUDIO_UPLOAD_MB) || 10) * 1024 * 1024;
+
+// Error codes of uploads rejected before they reach the server
+export const UPLOAD_TOO_LARGE = 'UPLOAD_TOO_LARGE';
+export const UPLOAD_EMPTY = 'UPLOAD_EMPTY';
+
+// Wait before each retry of a failed upload; one retry per entry
+const UPLOAD_RETRY_DELAYS_MS = [1000, 3000, 7000];
+
+// Uploads of large recordings on slow connections take longer than the default timeout
+const UPLOAD_TIMEOUT_MS = 120000;
+
+// File extension per recorder MIME type, ignoring codec parameters
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav'
+};
+
+export interface UploadAudioOptions {
+  folder?: string; // Default: 'recordings'
+  onProgress?: (percent: number) => void; // Bytes sent so far, 0-100
+  signal?: AbortSignal; // Abort to cancel the upload, including pending retries
+  maxBytes?: number; // Default: MAX_AUDIO_UPLOAD_BYTES
+}
+
 /**
- * Upload an audio file to the server
- * @param audioBlob The audio blob to upload
- * @param user The authenticated user data
- * @param folder Optional folder to store the file in (default: 'recordings')
- * @returns Object containing object_name and folder for the uploaded file
+ * File name for a recording that keeps the extension matching its MIME type
  */
+export const getAudioFileName = (audioBlob: Blob, baseName: string = 'recording'): string => {
+  const mimeType = audioBlob.type.split(';')[0].trim().toLowerCase();
+  return `${baseName}.${AUDIO_EXTENSIONS[mimeType] || 'webm'}`;
+};
 
-export const uploadAudioFile = async (
+/**
+ * Check a recording against the upload limits before sending it
+ * @returns An error describing the problem, or null if the recording can be uploaded
+ */
+export const validateAudioUpload = (
   audioBlob: Blob,
-  user: UserData,
-  folder: string = 'recordings'
-): Promise<FileUploadResponse> => {
-  if (!user) throw new Error('User not authenticated');
+  maxBytes: number = MAX_AUDIO_UPLOAD_BYTES
+): ApiError | null => {
+  if (audioBlob.size === 0) {
+    return new ApiError('The recording is empty. Please record again.', undefined, UPLOAD_EMPTY);
+  }
+  if (audioBlob.size > maxBytes) {
+    const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+    return new ApiError(
+      `The recording is ${toMb(audioBlob.size)} MB, over the ${toMb(maxBytes)} MB limit. Please record a shorter answer.`,
+      413,
+      UPLOAD_TOO_LARGE
+    );
+  }
+  return null;
+};
 
-  try {
-    // Convert blob to array buffer
-    const arrayBuffer = await audioBlob.arrayBuffer();
-    const bytes = new Uint8Array(arrayBuffer);
-
-    // Create form data
-    const formData = new FormData();
-    formData.append('file', new Blob([bytes]), 'recording.wav');
-    formData.append('folder', folder);
-
-    // Upload the file
-    const response = await fetch(`${API_URL}/media/file`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `${user.tokenType} ${user.token}`
-      },
-      body: formData
-    });
+/**
+ * Whether an upload was cancelled through its abort signal
+ */
+export const isUploadCancelled = (error: unknown): boolean => {
+  return axios.isCancel(error) || (error instanceof ApiError && error.code === 'ERR_CANCELED');
+};
+
+// Network errors, timeouts, rate limiting and server errors are worth another try
+const isTransientError = (error: ApiError): boolean => {
+  if (error.code === 'ERR_CANCELED') return false;
+  if (error.status === undefined) return true;
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+};
 
-    if (!response.ok) {
-      throw new Error(`Failed to upload audio: ${response.statusText}`);
+const waitForRetry = (delay: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new ApiError('Upload cancelled', undefined, 'ERR_CANCELED'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, delay);
+    if (signal?.aborted) {
+      cancel();
+    } else {
+      signal?.addEventListener('abort', cancel, { once: true });
     }
+  });
 
-    const data = await response.json();
-    console.log('File upload response:', data);
+/**
+ * Upload an audio file to the server, reporting byte progress and retrying
+ * transient failures with backoff
+ * @param audioBlob The audio blob to upload, with its recorder MIME type
+ * @param options Folder, progress callback, abort signal and size limit
+ * @returns Object containing object_name and folder for the uploaded file
+ * @throws ApiError, with code UPLOAD_TOO_LARGE or UPLOAD_EMPTY if the recording is rejected before upload
+ */
+export const uploadAudioFile = async (
+  audioBlob: Blob,
+  { folder = 'recordings', onProgress, signal, maxBytes = MAX_AUDIO_UPLOAD_BYTES }: UploadAudioOptions = {}
+): Promise<FileUploadResponse> => {
+  const validationError = validateAudioUpload(audioBlob, maxBytes);
+  if (validationError) throw validationError;
+
+  // Keep the recorder's MIME type and a matching extension
+  const formData = new FormData();
+  formData.append('file', audioBlob, getAudioFileName(audioBlob));
+  formData.append('folder', folder);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      onProgress?.(0);
+
+      const data = await requestData<FileUploadApiResponse>({
+        method: 'POST',
+        url: '/media/file',
+        data: formData,
+        signal,
+        timeout: UPLOAD_TIMEOUT_MS,
+        onUploadProgress: (event) => {
+          const total = event.total || audioBlob.size;
+          onProgress?.(Math.min(100, Math.round((event.loaded / total) * 100)));
+        }
+      });
 
-    // Check if the response has a nested 'file' object
-    if (data.file) {
-      console.log('File upload response has nested file object:', data.file);
+      // Check if the response has a nested 'file' object
+      const file = data.file || data;
       return {
-        object_name: data.file.object_name,
-        folder: data.file.folder,
-        url: data.file.url,
-        content_type: data.file.content_type,
-        size_bytes: data.file.size_bytes
-      };
-    } else {
-      // Handle the case where the response is flat
-      console.log('File upload response is flat:', data);
-      return {
-        object_name: data.object_name,
-        folder: data.folder,
-        url: data.url,
-        content_type: data.content_type,
-        size_bytes: data.size_bytes
+        object_name: file.object_name,
+        folder: file.folder,
+        url: file.url,
+        content_type: file.content_type,
+        size_bytes: file.size_bytes
       };
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (attempt >= UPLOAD_RETRY_DELAYS_MS.length || !isTransientError(apiError)) {
+        console.error('Error uploading audio:', apiError);
+        throw apiError;
+      }
+
+      // Back off with some jitter so clients that failed together don't retry together
+      const delay = UPLOAD_RETRY_DELAYS_MS[attempt] * (0.8 + Math.random() * 0.4);
+      console.warn(`Audio upload failed (${apiError.message}), retrying in ${Math.round(delay)}ms`);
+      await waitForRetry(delay, signal);
     }
-  } catch (error) {
-    console.error('Error uploading audio:', error);
-    throw error;
   }
 };
-
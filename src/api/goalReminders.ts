@@ -0,0 +1,126 @@
+/**
+ * Practice reminders shown through the service worker (public/sw.js) and the
+ * Notifications API. The app tells the worker when to remind and whether
+ * today's goal has been met. While the app is open it shows the reminder
+ * itself when the time comes. While it is closed, reminders only arrive where
+ * Periodic Background Sync wakes the worker (installed apps in Chromium
+ * browsers); elsewhere a reminder that fell due while the app was closed is
+ * shown the next time the app is opened that day.
+ */
+
+export const GOAL_REMINDER_MESSAGE = "goal-reminder";
+export const GOAL_REMINDER_SHOWN_MESSAGE = "goal-reminder-shown";
+export const GOAL_REMINDER_CLEAR_MESSAGE = "goal-reminder-clear";
+export const GOAL_REMINDER_SYNC_TAG = "daily-goal-reminder";
+// Notification tag, so a reminder replaces an earlier one instead of stacking
+export const GOAL_REMINDER_TAG = "goal-reminder";
+
+// How often the browser may wake the worker to check, at most
+const REMINDER_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface GoalReminderSchedule {
+  enabled: boolean;
+  time: string; // Local time of day, HH:mm
+  day: string; // Day goalMet refers to, yyyy-MM-dd
+  goalMet: boolean;
+  title: string;
+  body: string;
+  url: string; // Opened when the notification is clicked
+}
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncManager {
+  register: (tag: string, options?: { minInterval: number }) => Promise<void>;
+  unregister: (tag: string) => Promise<void>;
+}
+
+export const isReminderSupported = (): boolean => {
+  return "Notification" in window && "serviceWorker" in navigator;
+};
+
+/**
+ * Ask for permission to show notifications
+ * @returns Whether notifications may be shown
+ */
+export const requestReminderPermission = async (): Promise<boolean> => {
+  if (!isReminderSupported()) return false;
+  if (Notification.permission === "granted") return true;
+  if (Notification.permission === "denied") return false;
+  return (await Notification.requestPermission()) === "granted";
+};
+
+// Not registered in development builds
+const getActiveRegistration = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isReminderSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration?.active ? registration : null;
+};
+
+const setPeriodicCheck = async (registration: ServiceWorkerRegistration, enabled: boolean): Promise<void> => {
+  const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (!periodicSync) return;
+
+  try {
+    if (enabled) {
+      await periodicSync.register(GOAL_REMINDER_SYNC_TAG, { minInterval: REMINDER_CHECK_INTERVAL_MS });
+    } else {
+      await periodicSync.unregister(GOAL_REMINDER_SYNC_TAG);
+    }
+  } catch (error) {
+    // Only installed apps may use periodic sync; reminders then need the app to be open
+    console.warn("Periodic background sync unavailable for reminders:", error);
+  }
+};
+
+/**
+ * Hand the current reminder schedule to the service worker, which shows a
+ * reminder that is already due
+ */
+export const syncGoalReminder = async (schedule: GoalReminderSchedule): Promise<void> => {
+  const registration = await getActiveRegistration();
+  if (!registration) return;
+
+  const enabled = schedule.enabled && Notification.permission === "granted";
+  registration.active.postMessage({ type: GOAL_REMINDER_MESSAGE, schedule: { ...schedule, enabled } });
+  await setPeriodicCheck(registration, enabled);
+};
+
+/**
+ * Forget the reminder schedule, so a signed-out user isn't reminded
+ */
+export const clearGoalReminder = async (): Promise<void> => {
+  const registration = await getActiveRegistration();
+  if (!registration) return;
+
+  registration.active.postMessage({ type: GOAL_REMINDER_CLEAR_MESSAGE });
+  await setPeriodicCheck(registration, false);
+  const shown = await registration.getNotifications({ tag: GOAL_REMINDER_TAG });
+  shown.forEach((notification) => notification.close());
+};
+
+/**
+ * Milliseconds until today's reminder time, or null once it has passed
+ */
+export const getReminderDelay = (time: string, now: Date = new Date()): number | null => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const dueAt = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+  const delay = dueAt.getTime() - now.getTime();
+  return delay > 0 ? delay : null;
+};
+
+/**
+ * Show the reminder from the open app, and tell the worker it was shown today
+ */
+export const showGoalReminder = async (schedule: GoalReminderSchedule): Promise<void> => {
+  const registration = await getActiveRegistration();
+  if (!registration || Notification.permission !== "granted") return;
+
+  await registration.showNotification(schedule.title, {
+    body: schedule.body,
+    icon: "/icon-192.png",
+    badge: "/icon-192.png",
+    tag: GOAL_REMINDER_TAG,
+    data: { url: schedule.url }
+  });
+  registration.active.postMessage({ type: GOAL_REMINDER_SHOWN_MESSAGE, day: schedule.day });
+};
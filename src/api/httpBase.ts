@@ -1,6 +1,24 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
 import { toast } from '@/hooks/use-toast';
 import { UserData } from '@/types/User';
+import {
+  loadStoredUser,
+  storeUser,
+  clearStoredUser,
+  getActiveTenantSlug,
+  getTokenExpiresAt
+} from './authStorage';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Skip Authorization header injection (login, tenant lookup) */
+    skipAuth?: boolean;
+    /** Set once a request has been retried after a 401 */
+    retriedAfterUnauthorized?: boolean;
+  }
+}
+
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/v1';
 
 // Type definitions
 export interface ApiResponse<T = any> {
@@ -9,10 +27,21 @@ export interface ApiResponse<T = any> {
   message?: string;
 }
 
-export interface ApiError {
-  message: string;
-  code?: string;
+/**
+ * Normalized error thrown by every request made through the client
+ */
+export class ApiError extends Error {
   status?: number;
+  code?: string;
+  detail?: unknown;
+
+  constructor(message: string, status?: number, code?: string, detail?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.detail = detail;
+  }
 }
 
 export interface ApiCallbacks<T = any> {
@@ -21,29 +50,154 @@ export interface ApiCallbacks<T = any> {
   onFinally?: () => void;
 }
 
+/**
+ * Response of the OAuth token endpoints (/login and /refresh)
+ */
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+/**
+ * Called when an authenticated request comes back with 401 and the token
+ * could not be refreshed. Resolves true once the user has signed in again,
+ * in which case the failed request is retried.
+ */
+export type UnauthorizedHandler = (error: ApiError) => Promise<boolean>;
+
+// Default behaviour until AuthContext registers its own handler
+const redirectToLogin: UnauthorizedHandler = async () => {
+  if (window.location.pathname !== '/' && !window.location.pathname.includes('/login')) {
+    clearStoredUser();
+    // Keep tenant slug
+    const tenantSlug = getActiveTenantSlug();
+    window.location.href = tenantSlug ? `/${tenantSlug}/login` : '/';
+  }
+  return false;
+};
+
+let unauthorizedHandler: UnauthorizedHandler = redirectToLogin;
+
+/**
+ * Replace the handler invoked on 401 responses
+ * @returns A function restoring the default handler
+ */
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler): (() => void) => {
+  unauthorizedHandler = handler;
+  return () => {
+    if (unauthorizedHandler === handler) {
+      unauthorizedHandler = redirectToLogin;
+    }
+  };
+};
+
 // Create the base HTTP client
 const httpClient: AxiosInstance = axios.create({
-  baseURL: import.meta.env.VITE_API_URL || 'http://localhost:8000/v1',
+  baseURL: API_URL,
   timeout: 30000,
   headers: {
-    'Content-Type': 'application/json',
     'Accept': 'application/json',
   }
 });
 
+// Refresh this long before the access token actually expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+let refreshPromise: Promise<UserData | null> | null = null;
+let reauthPromise: Promise<boolean> | null = null;
+
+export const isTokenExpiring = (user: UserData): boolean => {
+  return !!user.tokenExpiresAt && user.tokenExpiresAt - Date.now() <= TOKEN_REFRESH_MARGIN_MS;
+};
+
+const performRefresh = async (): Promise<UserData | null> => {
+  const user = loadStoredUser();
+  if (!user?.refreshToken) return null;
+
+  try {
+    const formData = new URLSearchParams();
+    formData.append('grant_type', 'refresh_token');
+    formData.append('refresh_token', user.refreshToken);
+    formData.append('client_id', user.tenantSlug || getActiveTenantSlug() || '');
+
+    const response = await httpClient.request<TokenResponse>({
+      method: 'POST',
+      url: '/refresh',
+      data: formData,
+      skipAuth: true
+    });
+
+    const refreshedUser: UserData = {
+      ...user,
+      token: response.data.access_token,
+      tokenType: response.data.token_type || user.tokenType,
+      refreshToken: response.data.refresh_token || user.refreshToken,
+      tokenExpiresAt: getTokenExpiresAt(response.data.expires_in)
+    };
+    storeUser(refreshedUser);
+    return refreshedUser;
+  } catch (error) {
+    console.error('Error refreshing access token:', error);
+    return null;
+  }
+};
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * Concurrent callers share a single in-flight refresh.
+ * @returns The refreshed user, or null if the session could not be refreshed
+ */
+export const refreshSession = (): Promise<UserData | null> => {
+  if (!refreshPromise) {
+    refreshPromise = performRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+/**
+ * Return the stored user, refreshing the access token first if it is about to expire
+ */
+export const ensureFreshSession = async (): Promise<UserData | null> => {
+  const user = loadStoredUser();
+  if (user && isTokenExpiring(user)) {
+    return (await refreshSession()) || user;
+  }
+  return user;
+};
+
+/**
+ * Try to recover an expired session: refresh the token, otherwise hand over to
+ * the unauthorized handler. Concurrent callers wait on the same prompt.
+ * @returns true if requests may be retried with the new session
+ */
+export const recoverSession = async (error: ApiError): Promise<boolean> => {
+  if (await refreshSession()) return true;
+
+  if (!reauthPromise) {
+    reauthPromise = unauthorizedHandler(error).finally(() => {
+      reauthPromise = null;
+    });
+  }
+  return reauthPromise;
+};
+
 // Request interceptor - Add auth token
 httpClient.interceptors.request.use(
-  (config) => {
-    const userData = localStorage.getItem('user');
-    if (userData) {
-      try {
-        const user: UserData = JSON.parse(userData);
-        if (user.token) {
-          config.headers['Authorization'] = `${user.tokenType || 'Bearer'} ${user.token}`;
-        }
-      } catch (error) {
-        console.error('Error parsing user data from localStorage:', error);
-      }
+  async (config) => {
+    if (config.skipAuth) return config;
+
+    // Hold new requests while the user is signing in again
+    if (reauthPromise) {
+      await reauthPromise;
+    }
+
+    const user = await ensureFreshSession();
+    if (user?.token) {
+      config.headers['Authorization'] = `${user.tokenType || 'Bearer'} ${user.token}`;
     }
     return config;
   },
@@ -52,72 +206,109 @@ httpClient.interceptors.request.use(
   }
 );
 
-// Response interceptor - Handle errors
+/**
+ * Convert any thrown value into an ApiError, reading FastAPI's `detail` field when present
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const detail = error.response?.data?.detail;
+    let message = error.message;
+
+    if (typeof detail === 'string') {
+      message = detail;
+    } else if (Array.isArray(detail) && detail[0]?.msg) {
+      // Validation errors come back as a list of { loc, msg, type }
+      message = detail.map((item) => item.msg).join(', ');
+    } else if (error.response?.statusText) {
+      message = error.response.statusText;
+    }
+
+    return new ApiError(message, error.response?.status, error.code, detail);
+  }
+
+  if (error instanceof Error) {
+    return new ApiError(error.message);
+  }
+
+  return new ApiError('An unexpected error occurred');
+};
+
+/**
+ * Whether a request failed because the server could not be reached (offline,
+ * DNS, timeout) rather than because it answered with an error
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  const apiError = toApiError(error);
+  if (apiError.code === 'ERR_CANCELED') return false;
+  return apiError.status === undefined && (
+    !navigator.onLine ||
+    apiError.code === 'ERR_NETWORK' ||
+    apiError.code === 'ECONNABORTED' ||
+    apiError.code === 'ETIMEDOUT'
+  );
+};
+
+// Response interceptor - Normalize errors, refresh and retry once on 401
 httpClient.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      // Unauthorized - redirect to login
-      if (window.location.pathname !== '/' && !window.location.pathname.includes('/login')) {
-        localStorage.removeItem('user');
-        // Keep tenant slug
-        const tenantSlug = localStorage.getItem('tenant_slug');
-        if (tenantSlug) {
-          window.location.href = `/${tenantSlug}/login`;
-        } else {
-          window.location.href = '/';
-        }
+  async (error: AxiosError) => {
+    const apiError = toApiError(error);
+    const config = error.config;
+
+    if (apiError.status === 401 && config && !config.skipAuth && !config.retriedAfterUnauthorized) {
+      config.retriedAfterUnauthorized = true;
+      if (await recoverSession(apiError)) {
+        return httpClient.request(config);
       }
     }
-    
-    return Promise.reject(error);
+
+    return Promise.reject(apiError);
   }
 );
 
+/**
+ * Perform a request and resolve with the response body
+ * @throws ApiError
+ */
+export const requestData = async <T = any>(config: AxiosRequestConfig): Promise<T> => {
+  const response = await httpClient.request<T>(config);
+  return response.data;
+};
+
 // Generic request function with callbacks
 export const apiRequest = async <T = any>(
   config: AxiosRequestConfig,
   callbacks?: ApiCallbacks<T>
 ): Promise<ApiResponse<T>> => {
   try {
-    const response: AxiosResponse = await httpClient(config);
-    
+    const response = await httpClient.request<T>(config);
+
     const apiResponse: ApiResponse<T> = {
       data: response.data,
       status: response.status
     };
-    
+
     if (callbacks?.onSuccess) {
       callbacks.onSuccess(apiResponse.data);
     }
-    
+
     return apiResponse;
-  } catch (error: any) {
-    let errorMessage = 'An unexpected error occurred';
-    let errorStatus = 500;
-    
-    if (axios.isAxiosError(error)) {
-      errorMessage = error.response?.data?.detail || error.message;
-      errorStatus = error.response?.status || 500;
-    }
-    
-    const apiError: ApiError = {
-      message: errorMessage,
-      status: errorStatus,
-      code: error.code
-    };
-    
+  } catch (error) {
+    const apiError = toApiError(error);
+
     if (callbacks?.onError) {
       callbacks.onError(apiError);
     } else {
       // Default error handling with toast
       toast({
         title: 'Error',
-        description: errorMessage,
+        description: apiError.message,
         variant: 'destructive',
       });
     }
-    
+
     throw apiError;
   } finally {
     if (callbacks?.onFinally) {
@@ -128,32 +319,32 @@ export const apiRequest = async <T = any>(
 
 // Convenience methods
 export const get = <T = any>(
-  url: string, 
-  params?: any, 
+  url: string,
+  params?: any,
   callbacks?: ApiCallbacks<T>
 ): Promise<ApiResponse<T>> => {
   return apiRequest<T>({ method: 'GET', url, params }, callbacks);
 };
 
 export const post = <T = any>(
-  url: string, 
-  data?: any, 
+  url: string,
+  data?: any,
   callbacks?: ApiCallbacks<T>
 ): Promise<ApiResponse<T>> => {
   return apiRequest<T>({ method: 'POST', url, data }, callbacks);
 };
 
 export const put = <T = any>(
-  url: string, 
-  data?: any, 
+  url: string,
+  data?: any,
   callbacks?: ApiCallbacks<T>
 ): Promise<ApiResponse<T>> => {
   return apiRequest<T>({ method: 'PUT', url, data }, callbacks);
 };
 
 export const del = <T = any>(
-  url: string, 
-  params?: any, 
+  url: string,
+  params?: any,
   callbacks?: ApiCallbacks<T>
 ): Promise<ApiResponse<T>> => {
   return apiRequest<T>({ method: 'DELETE', url, params }, callbacks);
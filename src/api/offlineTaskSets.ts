@@ -0,0 +1,261 @@
+import { openDatabase, requestToPromise } from "@/lib/indexedDb";
+import { getStoredOwner } from "./authStorage";
+import { isNetworkError } from "./httpBase";
+import { fetchTask, fetchTaskSet, Task, TaskRequestOptions, TaskSet, TaskSetRequestOptions } from "./taskService";
+
+/**
+ * Task sets downloaded for offline use. A set is stored in IndexedDB with all
+ * of its tasks and the images and audio hints they reference, so it can be
+ * opened and completed without a connection.
+ */
+
+const OFFLINE_DB_NAME = "nepali_offline";
+const OFFLINE_DB_VERSION = 1;
+const TASK_SET_STORE = "task_sets";
+
+interface OfflineTaskSetRecord {
+  key: string; // <slug>:<userId>:<taskSetId>
+  tenantSlug: string;
+  userId: string;
+  taskSetId: string;
+  taskSet: TaskSet; // With its tasks included
+  assets: Record<string, Blob>; // Downloaded files by their original URL
+  savedAt: number;
+}
+
+export interface DownloadProgress {
+  completed: number;
+  total: number;
+}
+
+type OfflineTaskSetListener = () => void;
+
+const listeners = new Set<OfflineTaskSetListener>();
+
+/**
+ * Subscribe to task sets being downloaded or removed
+ * @returns Unsubscribe function
+ */
+export const subscribeToOfflineTaskSets = (listener: OfflineTaskSetListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase(OFFLINE_DB_NAME, OFFLINE_DB_VERSION, (db) => {
+      db.createObjectStore(TASK_SET_STORE, { keyPath: "key" });
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await getDatabase();
+  return requestToPromise(run(db.transaction(TASK_SET_STORE, mode).objectStore(TASK_SET_STORE)));
+};
+
+// Downloads belong to the signed-in user of the active tenant
+const recordKey = (taskSetId: string): string | null => {
+  const owner = getStoredOwner();
+  return owner ? `${owner.tenantSlug}:${owner.userId}:${taskSetId}` : null;
+};
+
+const listOwnRecords = async (): Promise<OfflineTaskSetRecord[]> => {
+  const owner = getStoredOwner();
+  if (!owner) return [];
+
+  const records = await withStore<OfflineTaskSetRecord[]>("readonly", (store) => store.getAll());
+  return records.filter((record) => record.tenantSlug === owner.tenantSlug && record.userId === owner.userId);
+};
+
+const getRecord = async (taskSetId: string): Promise<OfflineTaskSetRecord | null> => {
+  const key = recordKey(taskSetId);
+  if (!key) return null;
+  return (await withStore<OfflineTaskSetRecord | undefined>("readonly", (store) => store.get(key))) || null;
+};
+
+/**
+ * Images and audio hints referenced by a task, including match_pairs pictures
+ */
+const getTaskAssetUrls = (task: Task): string[] => {
+  const urls = [task.image_url, task.audio_hint_url, ...(task.pairs || []).map((pair) => pair.image_url)];
+  return urls.filter((url): url is string => !!url);
+};
+
+// Object URLs of stored files, created once per record and released when it is removed
+const objectUrls = new Map<string, Record<string, string>>();
+
+const releaseObjectUrls = (key: string) => {
+  Object.values(objectUrls.get(key) || {}).forEach((url) => URL.revokeObjectURL(url));
+  objectUrls.delete(key);
+};
+
+/**
+ * Point a stored task at the downloaded copies of its files
+ */
+const withLocalAssets = (task: Task, record: OfflineTaskSetRecord): Task => {
+  if (!objectUrls.has(record.key)) {
+    const urls: Record<string, string> = {};
+    Object.entries(record.assets).forEach(([url, blob]) => {
+      urls[url] = URL.createObjectURL(blob);
+    });
+    objectUrls.set(record.key, urls);
+  }
+
+  const urls = objectUrls.get(record.key);
+  const localUrl = (url?: string) => (url && urls[url]) || url;
+
+  return {
+    ...task,
+    image_url: localUrl(task.image_url),
+    audio_hint_url: localUrl(task.audio_hint_url),
+    ...(task.pairs && { pairs: task.pairs.map((pair) => ({ ...pair, image_url: localUrl(pair.image_url) })) })
+  };
+};
+
+/**
+ * Download a task set with its tasks, images and audio hints for offline use.
+ * Files that fail to download are skipped; the tasks still work without them.
+ * @param onProgress Called after each task and file has been fetched
+ */
+export const downloadTaskSetForOffline = async (
+  taskSetId: string,
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<void> => {
+  const owner = getStoredOwner();
+  if (!owner) {
+    throw new Error("Cannot download a task set without a signed-in user");
+  }
+
+  const taskSet = await fetchTaskSet(taskSetId, { include_tasks: true });
+  const taskRefs = (taskSet.tasks || []) as Array<Task | string>;
+
+  // Tasks the response only lists by ID are fetched one by one
+  const tasks: Task[] = [];
+  for (const taskRef of taskRefs) {
+    tasks.push(typeof taskRef === "string" ? await fetchTask(taskRef) : taskRef);
+    onProgress?.({ completed: tasks.length, total: taskRefs.length });
+  }
+
+  const assetUrls = Array.from(new Set(tasks.flatMap(getTaskAssetUrls)));
+  const total = tasks.length + assetUrls.length;
+  const assets: Record<string, Blob> = {};
+
+  for (const [index, url] of assetUrls.entries()) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      assets[url] = await response.blob();
+    } catch (error) {
+      console.warn(`Could not download ${url} for offline use:`, error);
+    }
+    onProgress?.({ completed: tasks.length + index + 1, total });
+  }
+
+  const record: OfflineTaskSetRecord = {
+    key: `${owner.tenantSlug}:${owner.userId}:${taskSetId}`,
+    ...owner,
+    taskSetId,
+    taskSet: { ...taskSet, tasks },
+    assets,
+    savedAt: Date.now()
+  };
+
+  releaseObjectUrls(record.key);
+  await withStore("readwrite", (store) => store.put(record));
+  notify();
+};
+
+/**
+ * Delete a downloaded task set and its files
+ */
+export const removeOfflineTaskSet = async (taskSetId: string): Promise<void> => {
+  const key = recordKey(taskSetId);
+  if (!key) return;
+
+  releaseObjectUrls(key);
+  await withStore("readwrite", (store) => store.delete(key));
+  notify();
+};
+
+/**
+ * IDs of the task sets the signed-in user has downloaded
+ */
+export const listOfflineTaskSetIds = async (): Promise<string[]> => {
+  return (await listOwnRecords()).map((record) => record.taskSetId);
+};
+
+/**
+ * A downloaded task set, its tasks pointing at the stored files
+ * @returns null if the set hasn't been downloaded
+ */
+export const getOfflineTaskSet = async (taskSetId: string): Promise<TaskSet | null> => {
+  const record = await getRecord(taskSetId);
+  if (!record) return null;
+
+  return {
+    ...record.taskSet,
+    tasks: (record.taskSet.tasks || []).map((task) => withLocalAssets(task, record))
+  };
+};
+
+/**
+ * A task from any downloaded task set
+ * @returns null if no downloaded set contains it
+ */
+export const getOfflineTask = async (taskId: string): Promise<Task | null> => {
+  for (const record of await listOwnRecords()) {
+    const task = (record.taskSet.tasks || []).find((item) => (item.id || item._id) === taskId);
+    if (task) return withLocalAssets(task, record);
+  }
+  return null;
+};
+
+/**
+ * Read through to the downloaded copy when offline or when the server can't be reached
+ */
+const withOfflineFallback = async <T>(load: () => Promise<T>, loadOffline: () => Promise<T | null>): Promise<T> => {
+  if (!navigator.onLine) {
+    const offline = await loadOffline().catch(() => null);
+    if (offline) return offline;
+  }
+
+  try {
+    return await load();
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const offline = await loadOffline().catch(() => null);
+      if (offline) {
+        console.warn("Server unreachable, using the downloaded copy:", error);
+        return offline;
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * fetchTaskSet, falling back to the downloaded copy of the set
+ */
+export const fetchTaskSetOrOffline = (taskSetId: string, options?: TaskSetRequestOptions): Promise<TaskSet> =>
+  withOfflineFallback(() => fetchTaskSet(taskSetId, options), () => getOfflineTaskSet(taskSetId));
+
+/**
+ * fetchTask, falling back to the task's copy in a downloaded set
+ */
+export const fetchTaskOrOffline = (taskId: string, options?: TaskRequestOptions): Promise<Task> =>
+  withOfflineFallback(() => fetchTask(taskId, options), () => getOfflineTask(taskId));
@@ -0,0 +1,124 @@
+import { toDayKey } from "@/lib/practiceStats";
+import { getStoredOwner } from "./authStorage";
+import { recordReviewOutcome, ReviewOutcome } from "./reviewQueue";
+
+/**
+ * Practice history of this device: every answered task and the time spent
+ * practicing per day, kept in localStorage per tenant and user as
+ * `practice_history:<slug>:<userId>`. Feeds the progress page.
+ */
+export const PRACTICE_HISTORY_STORAGE_KEY = "practice_history";
+
+// Oldest answers are dropped beyond this, keeping localStorage small
+const MAX_STORED_ANSWERS = 5000;
+
+export interface PracticeAnswer {
+  taskId: string;
+  taskSetId?: string;
+  taskType: string;
+  isCorrect: boolean;
+  score?: number;
+  answeredAt: number;
+}
+
+export interface PracticeHistory {
+  answers: PracticeAnswer[]; // Oldest first
+  secondsByDay: Record<string, number>; // Practice time by local day, yyyy-MM-dd
+}
+
+/**
+ * A task the learner answered, with the server's verdict
+ */
+export interface AnsweredTask extends ReviewOutcome {
+  answeredAt?: number; // Defaults to now; answers synced from the outbox keep the time they were given
+}
+
+type PracticeHistoryListener = (answered?: AnsweredTask) => void;
+
+const listeners = new Set<PracticeHistoryListener>();
+
+/**
+ * Subscribe to answers and practice time being recorded. Listeners receive the
+ * answered task when the change is an answer.
+ * @returns Unsubscribe function
+ */
+export const subscribeToPracticeHistory = (listener: PracticeHistoryListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const emptyHistory = (): PracticeHistory => ({ answers: [], secondsByDay: {} });
+
+const storageKey = (): string | null => {
+  const owner = getStoredOwner();
+  return owner ? `${PRACTICE_HISTORY_STORAGE_KEY}:${owner.tenantSlug}:${owner.userId}` : null;
+};
+
+const loadHistory = (key: string): PracticeHistory => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return emptyHistory();
+
+  try {
+    return { ...emptyHistory(), ...(JSON.parse(stored) as PracticeHistory) };
+  } catch (error) {
+    console.error("Failed to parse practice history:", error);
+    localStorage.removeItem(key);
+    return emptyHistory();
+  }
+};
+
+const updateHistory = (update: (history: PracticeHistory) => void, answered?: AnsweredTask): void => {
+  const key = storageKey();
+  if (!key) return;
+
+  const history = loadHistory(key);
+  update(history);
+  localStorage.setItem(key, JSON.stringify(history));
+  listeners.forEach((listener) => listener(answered));
+};
+
+/**
+ * Practice history of the signed-in user
+ */
+export const getPracticeHistory = (): PracticeHistory => {
+  const key = storageKey();
+  return key ? loadHistory(key) : emptyHistory();
+};
+
+/**
+ * Record an answered task in the history and the review queue. Every checked
+ * answer goes through here, whether submitted directly, synced from the
+ * outbox or checked with an exam.
+ */
+export const recordAnsweredTask = (answered: AnsweredTask): void => {
+  if (!answered.taskId) return;
+
+  recordReviewOutcome(answered);
+
+  const entry: PracticeAnswer = {
+    taskId: answered.taskId,
+    taskSetId: answered.taskSetId,
+    taskType: answered.taskType,
+    isCorrect: !!answered.result.is_correct,
+    score: answered.result.score,
+    answeredAt: answered.answeredAt || Date.now()
+  };
+
+  updateHistory((history) => {
+    history.answers = [...history.answers, entry].slice(-MAX_STORED_ANSWERS);
+  }, answered);
+};
+
+/**
+ * Add time spent practicing to the day it was spent on
+ */
+export const addPracticeTime = (seconds: number, at: number = Date.now()): void => {
+  if (seconds <= 0) return;
+
+  const day = toDayKey(at);
+  updateHistory((history) => {
+    history.secondsByDay[day] = (history.secondsByDay[day] || 0) + seconds;
+  });
+};
@@ -0,0 +1,101 @@
+import { createReviewCard, getAnswerQuality, ReviewCard, scheduleReview } from "@/lib/spacedRepetition";
+import { getStoredOwner } from "./authStorage";
+import { TaskAnswerResult } from "./taskService";
+
+/**
+ * Spaced-repetition queue of tasks the learner has missed. Cards are kept in
+ * localStorage per tenant and user as `review_queue:<slug>:<userId>`.
+ */
+export const REVIEW_QUEUE_STORAGE_KEY = "review_queue";
+
+// Cards in one daily review deck, overridable per deployment
+export const DAILY_REVIEW_LIMIT = Number(import.meta.env.VITE_DAILY_REVIEW_LIMIT) || 20;
+
+type ReviewCards = Record<string, ReviewCard>; // By task ID
+
+type ReviewQueueListener = () => void;
+
+const listeners = new Set<ReviewQueueListener>();
+
+/**
+ * Subscribe to cards being added, rescheduled or removed
+ * @returns Unsubscribe function
+ */
+export const subscribeToReviewQueue = (listener: ReviewQueueListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const storageKey = (): string | null => {
+  const owner = getStoredOwner();
+  return owner ? `${REVIEW_QUEUE_STORAGE_KEY}:${owner.tenantSlug}:${owner.userId}` : null;
+};
+
+const loadCards = (key: string): ReviewCards => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return {};
+
+  try {
+    return JSON.parse(stored) as ReviewCards;
+  } catch (error) {
+    console.error("Failed to parse review queue:", error);
+    localStorage.removeItem(key);
+    return {};
+  }
+};
+
+// Apply a change to the stored cards; `update` returns false when it changed nothing
+const updateCards = (update: (cards: ReviewCards) => boolean | void): void => {
+  const key = storageKey();
+  if (!key) return;
+
+  const cards = loadCards(key);
+  if (update(cards) === false) return;
+  localStorage.setItem(key, JSON.stringify(cards));
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Cards of the signed-in user
+ */
+export const listReviewCards = (): ReviewCard[] => {
+  const key = storageKey();
+  return key ? Object.values(loadCards(key)) : [];
+};
+
+export interface ReviewOutcome {
+  taskId: string;
+  taskType: string;
+  taskSetId?: string;
+  result: Pick<TaskAnswerResult, "is_correct" | "score">;
+  maxScore?: number;
+}
+
+/**
+ * Schedule a task after it has been answered. Missed tasks join the queue;
+ * tasks already in it are rescheduled by how well they were answered.
+ */
+export const recordReviewOutcome = ({ taskId, taskType, taskSetId, result, maxScore }: ReviewOutcome): void => {
+  if (!taskId) return;
+
+  updateCards((cards) => {
+    const isCorrect = !!result.is_correct;
+    const existing = cards[taskId];
+    // Tasks answered right the first time don't need reviewing
+    if (!existing && isCorrect) return false;
+
+    const card = existing || createReviewCard({ taskId, taskSetId, taskType });
+    cards[taskId] = scheduleReview(card, getAnswerQuality(isCorrect, result.score, maxScore));
+  });
+};
+
+/**
+ * Drop a task from the queue, e.g. once it no longer exists
+ */
+export const removeReviewCard = (taskId: string): void => {
+  updateCards((cards) => {
+    delete cards[taskId];
+  });
+};
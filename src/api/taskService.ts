@@ -1,17 +1,6 @@
-import { UserData } from "../types/User";
+import { requestData } from "./httpBase";
 
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000/v1";
-
-/**
- * Interface for file upload response
- */
-export interface FileUploadResponse {
-  object_name: string;
-  folder: string;
-  url?: string;
-  content_type?: string;
-  size_bytes?: number;
-}
+export type { FileUploadResponse } from "./fileService";
 
 /**
  * Interface for a task item
@@ -26,10 +15,21 @@ export interface Task {
   word?: string;
   audio_hint_url?: string;
   image_url?: string;
+  pairs?: MatchPair[]; // match_pairs tasks
+  gap_options?: string[][]; // cloze tasks: dropdown options per gap, overriding the shared options
   status?: string;
   [key: string]: any; // Allow for additional properties
 }
 
+/**
+ * Interface for a pair of a match_pairs task; the Nepali word matches its English meaning or picture
+ */
+export interface MatchPair {
+  nepali: string;
+  english?: string;
+  image_url?: string;
+}
+
 /**
  * Interface for a task set
  */
@@ -58,7 +58,7 @@ export interface TaskSet {
  */
 export interface TaskAnswer {
   task_id: string;
-  user_answer: string | number | boolean;
+  user_answer: string | number | boolean | string[] | Record<string, unknown>;
   is_correct?: boolean;
   status?: string;
   feedback?: string;
@@ -85,6 +85,51 @@ export interface TaskSubmissionResult {
   };
 }
 
+/**
+ * Interface for a single task submission result
+ */
+export interface TaskAnswerResult {
+  task_id?: string;
+  is_correct: boolean;
+  score?: number;
+  correct_answer?: string;
+  feedback?: string;
+  alignment?: SyllableAlignment[]; // speak_word: per-syllable verdicts, when the server aligns the recording
+  [key: string]: unknown; // Allow for additional properties
+}
+
+/**
+ * One syllable of a speak_word recording as aligned by the server, with its
+ * position in the learner's recording in seconds
+ */
+export interface SyllableAlignment {
+  syllable: string;
+  start?: number;
+  end?: number;
+  score?: number; // 0..1
+  is_correct?: boolean;
+}
+
+/**
+ * Interface for the per-task score entry of a test score response
+ */
+export interface TaskScore {
+  task_id: string;
+  score: number;
+  [key: string]: unknown; // Allow for additional properties
+}
+
+/**
+ * Interface for task set test scores
+ */
+export interface TaskSetScores {
+  task_set_id?: string;
+  max_score?: number;
+  scored?: number;
+  tasks?: TaskScore[];
+  [key: string]: unknown; // Allow for additional properties
+}
+
 /**
  * Interface for task set request options
  */
@@ -123,38 +168,26 @@ export interface PaginatedTaskSets {
 /**
  * Fetch a task set by ID with options for field filtering
  * @param taskSetId The ID of the task set to fetch
- * @param user The authenticated user data
  * @param options Optional request options for filtering fields
  * @returns The task set data
  */
 export const fetchTaskSet = async (
   taskSetId: string,
-  user: UserData,
   options?: TaskSetRequestOptions
 ): Promise<TaskSet> => {
   try {
     // Use the new POST endpoint with request body for more control
-    const response = await fetch(`${API_URL}/tasks/task-set`, {
+    return await requestData<TaskSet>({
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `${user.tokenType} ${user.token}`
-      },
-      body: JSON.stringify({
+      url: '/tasks/task-set',
+      data: {
         set_id: taskSetId,
         include_tasks: options?.include_tasks || false,
         include_task_ids: true  // Always include task IDs for better loading
         // fields has a default value in the backend
         // task_fields was removed from the API
-      })
+      }
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch task set: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
   } catch (error) {
     console.error("Error fetching task set:", error);
     throw error;
@@ -164,35 +197,23 @@ export const fetchTaskSet = async (
 /**
  * Fetch a single task by ID with options for field filtering
  * @param taskId The ID of the task to fetch
- * @param user The authenticated user data
  * @param options Optional request options for filtering fields
  * @returns The task data
  */
 export const fetchTask = async (
   taskId: string,
-  user: UserData,
   options?: TaskRequestOptions
 ): Promise<Task> => {
   try {
     // Use the new POST endpoint with request body for more control
-    const response = await fetch(`${API_URL}/tasks/task`, {
+    return await requestData<Task>({
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `${user.tokenType} ${user.token}`
-      },
-      body: JSON.stringify({
+      url: '/tasks/task',
+      data: {
         task_id: taskId,
         fields: options?.fields
-      })
+      }
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch task: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
   } catch (error) {
     console.error("Error fetching task:", error);
     throw error;
@@ -203,33 +224,21 @@ export const fetchTask = async (
  * Submit answers for a task set
  * @param taskSetId The ID of the task set
  * @param answers Array of task answers
- * @param user The authenticated user data
  * @returns The submission result
  */
 export const submitTaskAnswers = async (
   taskSetId: string,
-  answers: TaskAnswer[],
-  user: UserData
+  answers: TaskAnswer[]
 ): Promise<TaskSubmissionResult> => {
   try {
-    const response = await fetch(`${API_URL}/tasks/task-set/submit`, {
+    return await requestData<TaskSubmissionResult>({
       method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `${user.tokenType} ${user.token}`
-      },
-      body: JSON.stringify({
+      url: '/tasks/task-set/submit',
+      data: {
         set_id: taskSetId,
         answers: answers
-      })
+      }
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to submit task answers: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
   } catch (error) {
     console.error("Error submitting task answers:", error);
     throw error;
@@ -240,54 +249,38 @@ export const submitTaskAnswers = async (
  * Submit an answer for a single task
  * @param taskId The ID of the task
  * @param answer The user's answer
- * @param user The authenticated user data
  * @param taskType Optional task type
  * @returns The submission result for the single task
  */
 export const submitTaskAnswer = async (
   taskId: string,
-  answer: string | number | boolean,
-  user: UserData,
+  answer: unknown,
   taskType?: string
-): Promise<any> => {
+): Promise<TaskAnswerResult> => {
   try {
-    const response = await fetch(`${API_URL}/tasks/task/submit`, {
+    return await requestData<TaskAnswerResult>({
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `${user.tokenType} ${user.token}`
-      },
-      body: JSON.stringify({
+      url: '/tasks/task/submit',
+      data: {
         task_id: taskId,
         answer: answer,
         task_type: taskType
-      })
+      }
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to submit task answer: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
   } catch (error) {
     console.error("Error submitting task answer:", error);
     throw error;
   }
 };
 
-
-
 /**
  * Fetch user's task sets with pagination
- * @param user The authenticated user data
  * @param limit Maximum number of records to return (default: 10)
  * @param skip Number of records to skip (default: 0)
  * @param fields Optional fields to retrieve
  * @returns Paginated list of task sets
  */
 export const fetchUserTaskSets = async (
-  user: UserData,
   limit: number = 10,
   skip: number = 0,
   fields?: string[]
@@ -304,20 +297,11 @@ export const fetchUserTaskSets = async (
       fields.forEach(field => params.append('fields', field));
     }
 
-    const response = await fetch(`${API_URL}/tasks/user/task-sets?${params.toString()}`, {
+    return await requestData<PaginatedTaskSets>({
       method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `${user.tokenType} ${user.token}`
-      }
+      url: '/tasks/user/task-sets',
+      params
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch user task sets: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
   } catch (error) {
     console.error("Error fetching user task sets:", error);
     throw error;
@@ -327,36 +311,19 @@ export const fetchUserTaskSets = async (
 /**
  * Fetch test scores for a task set
  * @param taskSetId The ID of the task set
- * @param user The authenticated user data
  * @returns The test scores data
  */
 export const fetchTestScores = async (
-  taskSetId: string,
-  user: UserData
-): Promise<any> => {
+  taskSetId: string
+): Promise<TaskSetScores> => {
   try {
-    const response = await fetch(`${API_URL}/tasks/test_score?task_set_id=${taskSetId}`, {
+    return await requestData<TaskSetScores>({
       method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `${user.tokenType} ${user.token}`
-      }
+      url: '/tasks/test_score',
+      params: { task_set_id: taskSetId }
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch test scores: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    console.log('Test scores fetched:', data);
-    return data;
   } catch (error) {
     console.error("Error fetching test scores:", error);
     throw error;
   }
 };
-
-
-
-
-// fetch all taks of a user
\ No newline at end of file
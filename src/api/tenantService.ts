@@ -0,0 +1,92 @@
+import { TenantConfig } from "../types/Tenant";
+import { requestData, toApiError } from "./httpBase";
+
+/**
+ * Response of GET /get_tenant_id
+ */
+export interface TenantLookupResponse {
+  tenant_id?: string;
+  tenant_slug?: string;
+  tenant_label?: string;
+  display_name?: string;
+  logo_url?: string;
+  login_background_url?: string;
+  theme?: {
+    primary_color?: string;
+    secondary_color?: string;
+    accent_color?: string;
+    dark_color?: string;
+  };
+  enabled_task_types?: string[];
+  default_language?: string;
+}
+
+export const DEFAULT_TENANT_DISPLAY_NAME = 'Nepali App';
+
+// Last configuration the backend returned per slug, as `tenant_config:<slug>`,
+// so tenant routes still open while offline
+export const TENANT_CONFIG_STORAGE_KEY = 'tenant_config';
+
+const cacheKey = (slug: string) => `${TENANT_CONFIG_STORAGE_KEY}:${slug}`;
+
+const loadCachedTenantConfig = (slug: string): TenantConfig | null => {
+  const stored = localStorage.getItem(cacheKey(slug));
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as TenantConfig;
+  } catch (error) {
+    console.error("Failed to parse cached tenant configuration:", error);
+    localStorage.removeItem(cacheKey(slug));
+    return null;
+  }
+};
+
+/**
+ * Fetch a tenant's configuration by slug
+ * @param slug The tenant slug from the URL or login form
+ * @returns The tenant configuration, or null if the slug is unknown. When the
+ * backend can't be reached the last configuration seen for the slug is used.
+ */
+export const fetchTenantConfig = async (slug: string): Promise<TenantConfig | null> => {
+  try {
+    const data = await requestData<TenantLookupResponse>({
+      method: 'GET',
+      url: '/get_tenant_id',
+      params: { slug },
+      skipAuth: true
+    });
+
+    if (!data.tenant_id) {
+      localStorage.removeItem(cacheKey(slug));
+      return null;
+    }
+
+    const config: TenantConfig = {
+      tenantId: data.tenant_id,
+      slug: data.tenant_slug || slug,
+      displayName: data.display_name || data.tenant_label || DEFAULT_TENANT_DISPLAY_NAME,
+      logoUrl: data.logo_url,
+      loginBackgroundUrl: data.login_background_url,
+      theme: {
+        primary: data.theme?.primary_color,
+        secondary: data.theme?.secondary_color,
+        accent: data.theme?.accent_color,
+        dark: data.theme?.dark_color
+      },
+      enabledTaskTypes: data.enabled_task_types,
+      defaultLanguage: data.default_language || 'en'
+    };
+    localStorage.setItem(cacheKey(slug), JSON.stringify(config));
+    return config;
+  } catch (error) {
+    console.error("Error fetching tenant configuration:", error);
+
+    // Only the backend saying so makes a slug unknown
+    if (toApiError(error).status === 404) {
+      localStorage.removeItem(cacheKey(slug));
+      return null;
+    }
+    return loadCachedTenantConfig(slug);
+  }
+};
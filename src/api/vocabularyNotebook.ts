@@ -0,0 +1,134 @@
+import { normalizeDevanagari } from "@/lib/devanagari";
+import { getStoredOwner } from "./authStorage";
+
+/**
+ * Vocabulary notebook of words the learner saved from tasks. Entries are kept
+ * in localStorage per tenant and user as `vocabulary:<slug>:<userId>`.
+ */
+export const VOCABULARY_STORAGE_KEY = "vocabulary";
+
+export interface VocabularyEntry {
+  id: string;
+  word: string; // Devanagari
+  meaning: string;
+  tags: string[];
+  audioUrl?: string;
+  taskId?: string; // Task the word was saved from
+  taskSetId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type VocabularyEntryInput = Omit<VocabularyEntry, "id" | "createdAt" | "updatedAt">;
+
+type VocabularyListener = () => void;
+
+const listeners = new Set<VocabularyListener>();
+
+/**
+ * Subscribe to words being saved, edited or removed
+ * @returns Unsubscribe function
+ */
+export const subscribeToVocabulary = (listener: VocabularyListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const storageKey = (): string | null => {
+  const owner = getStoredOwner();
+  return owner ? `${VOCABULARY_STORAGE_KEY}:${owner.tenantSlug}:${owner.userId}` : null;
+};
+
+const loadEntries = (key: string): VocabularyEntry[] => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+
+  try {
+    return JSON.parse(stored) as VocabularyEntry[];
+  } catch (error) {
+    console.error("Failed to parse vocabulary notebook:", error);
+    localStorage.removeItem(key);
+    return [];
+  }
+};
+
+const updateEntries = (update: (entries: VocabularyEntry[]) => VocabularyEntry[]): void => {
+  const key = storageKey();
+  if (!key) {
+    throw new Error("Cannot change the vocabulary notebook without a signed-in user");
+  }
+
+  localStorage.setItem(key, JSON.stringify(update(loadEntries(key))));
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Saved words of the signed-in user, newest first
+ */
+export const listVocabulary = (): VocabularyEntry[] => {
+  const key = storageKey();
+  return key ? loadEntries(key).sort((a, b) => b.createdAt - a.createdAt) : [];
+};
+
+/**
+ * Tidy a list of tags: trimmed, lower case, without duplicates
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  return Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+};
+
+/**
+ * Save a word. Saving a word that is already in the notebook merges the two:
+ * tags are combined and a new meaning or audio hint replaces the old one.
+ */
+export const saveVocabularyEntry = (input: VocabularyEntryInput): void => {
+  const word = input.word.trim();
+  if (!word) return;
+
+  const now = Date.now();
+  updateEntries((entries) => {
+    const existing = entries.find((entry) => normalizeDevanagari(entry.word) === normalizeDevanagari(word));
+    if (!existing) {
+      return [
+        ...entries,
+        { ...input, id: `${now}-${Math.random().toString(36).slice(2, 8)}`, word, tags: normalizeTags(input.tags), createdAt: now, updatedAt: now }
+      ];
+    }
+
+    return entries.map((entry) =>
+      entry === existing
+        ? {
+            ...entry,
+            meaning: input.meaning.trim() || entry.meaning,
+            tags: normalizeTags([...entry.tags, ...input.tags]),
+            audioUrl: input.audioUrl || entry.audioUrl,
+            updatedAt: now
+          }
+        : entry
+    );
+  });
+};
+
+/**
+ * Edit the meaning or tags of a saved word
+ */
+export const updateVocabularyEntry = (id: string, changes: Partial<Pick<VocabularyEntry, "meaning" | "tags">>): void => {
+  updateEntries((entries) =>
+    entries.map((entry) =>
+      entry.id === id
+        ? {
+            ...entry,
+            ...changes,
+            tags: changes.tags ? normalizeTags(changes.tags) : entry.tags,
+            updatedAt: Date.now()
+          }
+        : entry
+    )
+  );
+};
+
+export const removeVocabularyEntry = (id: string): void => {
+  updateEntries((entries) => entries.filter((entry) => entry.id !== id));
+};
@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+import { backfillTaskSetScores, setAnnouncedLevel, syncTaskSetScores, unlockBadges } from '@/api/achievements';
+import { subscribeToPracticeHistory } from '@/api/practiceHistory';
+import { toast } from '@/hooks/use-toast';
+import { useAchievements } from '@/hooks/useAchievements';
+
+/**
+ * Fetches task set scores, once for earlier task sets and then as answers are
+ * recorded, unlocks earned badges and announces them and level ups with a
+ * toast. Renders nothing.
+ */
+const AchievementTracker: React.FC = () => {
+  const { level, badges, announcedLevel, backfilled } = useAchievements();
+
+  // XP comes from the server's scores: all task sets once, then the task set of each answer
+  useEffect(() => {
+    backfillTaskSetScores().catch((error) => {
+      console.warn('Failed to backfill task set scores for XP:', error);
+    });
+    return subscribeToPracticeHistory((answered) => {
+      if (!answered?.taskSetId) return;
+      syncTaskSetScores(answered.taskSetId).catch((error) => {
+        console.warn('Failed to refresh task set scores for XP:', error);
+      });
+    });
+  }, []);
+
+  useEffect(() => {
+    // Wait for earlier scores, so they're announced together rather than level by level
+    if (!backfilled) return;
+
+    const newBadges = unlockBadges(badges.filter(badge => badge.earned && !badge.unlockedAt).map(badge => badge.id));
+    const leveledUp = level > announcedLevel;
+    if (leveledUp) setAnnouncedLevel(level);
+    if (newBadges.length === 0 && !leveledUp) return;
+
+    // Only one toast is shown at a time, so everything goes into one
+    const titles = badges.filter(badge => newBadges.includes(badge.id)).map(badge => badge.title);
+    const parts = [
+      ...(leveledUp ? [`You reached level ${level}.`] : []),
+      ...(titles.length > 0 ? [`Badge${titles.length > 1 ? 's' : ''} unlocked: ${titles.join(', ')}.`] : [])
+    ];
+    toast({
+      title: titles.length > 0 ? 'Achievement unlocked!' : 'Level up!',
+      description: parts.join(' ')
+    });
+  }, [badges, level, announcedLevel, backfilled]);
+
+  return null;
+};
+
+export default AchievementTracker;
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useRecorder } from '@/hooks/useAudioRecorder';
 import { useAudioWebSocket, ProcessingStatus } from '@/hooks/useAudioWebSocket';
 import { useAuth } from '@/context/AuthContext';
+import { useTenantPath } from '@/hooks/useTenantPath';
 
 // Define animation keyframes for audio visualization
 const animationStyles = `
@@ -30,6 +31,7 @@ interface AudioRecorderProps {
 const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const tenantPath = useTenantPath();
 
   // State for recording time
   const [recordingTime, setRecordingTime] = useState<number>(0);
@@ -49,10 +51,10 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
 
       // Navigate to task view
       setTimeout(() => {
-        navigate(`/tasks/${taskSetId}`, { state: { from: 'learning' } });
+        navigate(tenantPath(`/tasks/${taskSetId}`), { state: { from: 'learning' } });
       }, 1500);
     }
-  }, [onRecordingComplete, navigate]);
+  }, [onRecordingComplete, navigate, tenantPath]);
 
   // Initialize WebSocket hook
   const {
@@ -0,0 +1,49 @@
+import React, { useEffect, useMemo } from 'react';
+import { getReminderDelay, GoalReminderSchedule, showGoalReminder, syncGoalReminder } from '@/api/goalReminders';
+import { useDailyGoal } from '@/hooks/useDailyGoal';
+import { useTenantPath } from '@/hooks/useTenantPath';
+
+/**
+ * Keeps the service worker's practice reminder in step with the reminder
+ * settings and today's goal progress, and shows the reminder when it falls due
+ * while the app is open. Renders nothing.
+ */
+const DailyGoalReminder: React.FC = () => {
+  const { goal, reminder, today, todayProgress, streak } = useDailyGoal();
+  const { current: streakDays } = streak;
+  const tenantPath = useTenantPath();
+  const dashboardUrl = tenantPath('/dashboard');
+
+  const schedule = useMemo<GoalReminderSchedule>(() => {
+    const unit = goal.metric === 'tasks' ? 'tasks' : 'minutes';
+    return {
+      ...reminder,
+      day: today,
+      goalMet: todayProgress.met,
+      title: streakDays > 0 ? `Keep your ${streakDays}-day streak going` : 'Time to practice Nepali',
+      body: `Your daily goal is ${goal.target} ${unit}. A few minutes of practice is enough to stay on track.`,
+      url: dashboardUrl
+    };
+  }, [reminder, today, todayProgress.met, streakDays, goal, dashboardUrl]);
+
+  useEffect(() => {
+    syncGoalReminder(schedule).catch((error) => console.error('Failed to schedule practice reminder:', error));
+  }, [schedule]);
+
+  // The worker is stopped when idle, so the open app keeps the time itself
+  useEffect(() => {
+    if (!schedule.enabled || schedule.goalMet) return;
+
+    const delay = getReminderDelay(schedule.time);
+    if (delay === null) return; // Already due; the worker showed it when the schedule was synced
+
+    const timer = setTimeout(() => {
+      showGoalReminder(schedule).catch((error) => console.error('Failed to show practice reminder:', error));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [schedule]);
+
+  return null;
+};
+
+export default DailyGoalReminder;
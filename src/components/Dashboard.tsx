@@ -6,10 +6,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNavigate } from "react-router-dom";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from '@/components/ui/sidebar';
 import SideNavigation from '@/components/Navigation/SideNavigation';
+import { useTenantPath } from '@/hooks/useTenantPath';
+import StreakWidget from '@/components/StreakWidget';
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const tenantPath = useTenantPath();
 
   return (
     <SidebarProvider>
@@ -31,6 +34,7 @@ const Dashboard: React.FC = () => {
             {/* Page content */}
             <main className="flex-1 p-6 overflow-auto">
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <StreakWidget />
                 <Card className="shadow-md hover:shadow-lg transition-shadow">
                   <CardHeader className="bg-nepali-red bg-opacity-10 pb-2">
                     <CardTitle className="text-xl text-nepali-maroon">Begin Learning</CardTitle>
@@ -40,7 +44,7 @@ const Dashboard: React.FC = () => {
                       Start your Nepali learning journey today. Practice speaking with our real-time audio recording.
                     </p>
                     <div className="mt-4">
-                      <Button className="nepali-gradient text-white" onClick={() => navigate("/begin-learning")}>
+                      <Button className="nepali-gradient text-white" onClick={() => navigate(tenantPath("/begin-learning"))}>
                         Start Now
                       </Button>
                     </div>
@@ -59,7 +63,7 @@ const Dashboard: React.FC = () => {
                       <Button
                         variant="outline"
                         className="border-nepali-blue text-nepali-blue hover:bg-nepali-blue hover:text-white"
-                        onClick={() => navigate("/progress")}
+                        onClick={() => navigate(tenantPath("/progress"))}
                       >
                         View Stats
                       </Button>
@@ -79,7 +83,7 @@ const Dashboard: React.FC = () => {
                       <Button
                         variant="outline"
                         className="border-purple-500 text-purple-700 hover:bg-purple-500 hover:text-white"
-                        onClick={() => navigate("/tasks")}
+                        onClick={() => navigate(tenantPath("/tasks"))}
                       >
                         View Tasks
                       </Button>
@@ -0,0 +1,293 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { Keyboard } from 'lucide-react';
+import DevanagariKeyboard from '@/components/DevanagariKeyboard';
+import { getTransliterationCandidates } from '@/lib/transliteration';
+import { cn } from '@/lib/utils';
+
+// The romanized word being composed is the run of latin letters before the caret
+const COMPOSING_WORD = /[A-Za-z~]+$/;
+
+// Typing one of these after a romanized word commits its selected candidate
+const WORD_SEPARATOR = /[\s.,!?;:|]/;
+
+const MAX_CANDIDATES = 5;
+
+interface DevanagariInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onEnter?: () => void;
+  multiline?: boolean;
+  rows?: number;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+  showToolbar?: boolean;
+  defaultTransliterate?: boolean;
+  'aria-label'?: string;
+}
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+/**
+ * Text input that turns romanized Nepali into Devanagari as you type
+ * ("namaste" → "नमस्ते"), with a list of candidate spellings for the current
+ * word and an optional on-screen Devanagari keyboard.
+ */
+const DevanagariInput: React.FC<DevanagariInputProps> = ({
+  value,
+  onChange,
+  onEnter,
+  multiline = false,
+  rows = 2,
+  placeholder,
+  disabled,
+  className,
+  showToolbar = true,
+  defaultTransliterate = true,
+  'aria-label': ariaLabel
+}) => {
+  const inputRef = useRef<TextField | null>(null);
+  const pendingCaretRef = useRef<number | null>(null);
+
+  const [transliterate, setTransliterate] = useState(defaultTransliterate);
+  const [showKeyboard, setShowKeyboard] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const [selected, setSelected] = useState(0);
+  const [dismissedWord, setDismissedWord] = useState<string | null>(null);
+
+  const text = value || '';
+  const composingWord = transliterate ? text.slice(0, caret).match(COMPOSING_WORD)?.[0] || '' : '';
+  const candidates =
+    composingWord && composingWord !== dismissedWord
+      ? getTransliterationCandidates(composingWord, MAX_CANDIDATES)
+      : [];
+  const showCandidates = isFocused && !disabled && candidates.length > 0;
+
+  // Put the caret back where an edit left it once the new value has rendered
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    const position = pendingCaretRef.current;
+    if (input && position !== null) {
+      input.setSelectionRange(position, position);
+      pendingCaretRef.current = null;
+    }
+  }, [value]);
+
+  const update = (nextValue: string, nextCaret: number) => {
+    pendingCaretRef.current = nextCaret;
+    setCaret(nextCaret);
+    setSelected(0);
+    onChange(nextValue);
+  };
+
+  /**
+   * Replace the romanized word ending at `end` with its Devanagari spelling
+   */
+  const replaceWord = (source: string, end: number, word: string, replacement: string, suffix = '') => {
+    const start = end - word.length;
+    const before = source.slice(0, start) + replacement + suffix;
+    update(before + source.slice(end + suffix.length), before.length);
+  };
+
+  const commitCandidate = (index: number) => {
+    const candidate = candidates[index];
+    if (!candidate) return;
+    replaceWord(text, caret, composingWord, candidate);
+  };
+
+  const handleChange = (e: React.ChangeEvent<TextField>) => {
+    const nextValue = e.target.value;
+    const nextCaret = e.target.selectionStart ?? nextValue.length;
+
+    // A separator typed right after a romanized word commits the word. Checking
+    // here rather than on keydown also covers mobile keyboards.
+    const typed = nextValue.slice(nextCaret - 1, nextCaret);
+    if (transliterate && nextValue.length === text.length + 1 && WORD_SEPARATOR.test(typed)) {
+      const word = nextValue.slice(0, nextCaret - 1).match(COMPOSING_WORD)?.[0];
+      if (word && word !== dismissedWord) {
+        const candidate =
+          word === composingWord ? candidates[selected] : getTransliterationCandidates(word, 1)[0];
+        replaceWord(nextValue, nextCaret - 1, word, candidate, typed === '|' ? '।' : typed);
+        return;
+      }
+    }
+
+    setCaret(nextCaret);
+    setSelected(0);
+    onChange(nextValue);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<TextField>) => {
+    if (showCandidates) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : candidates.length - 1;
+        setSelected((selected + step) % candidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        commitCandidate(selected);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissedWord(composingWord);
+        return;
+      }
+      // 1-5 pick a candidate directly
+      const number = Number(e.key);
+      if (number >= 1 && number <= candidates.length) {
+        e.preventDefault();
+        commitCandidate(number - 1);
+        return;
+      }
+    }
+
+    // Enter submits; Shift+Enter adds a new line in multiline inputs
+    if (e.key === 'Enter' && onEnter && !(multiline && e.shiftKey)) {
+      e.preventDefault();
+      onEnter();
+    }
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<TextField>) => {
+    setCaret(e.currentTarget.selectionStart ?? 0);
+  };
+
+  // Leaving the field (e.g. to press Submit) commits the word being composed
+  const handleBlur = () => {
+    setIsFocused(false);
+    if (candidates.length > 0) commitCandidate(selected);
+  };
+
+  // On-screen keyboard keys go in at the caret, replacing any selection
+  const insertText = (insert: string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? text.length;
+    const end = input?.selectionEnd ?? start;
+    update(text.slice(0, start) + insert + text.slice(end), start + insert.length);
+  };
+
+  const deleteBackward = () => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? text.length;
+    const end = input?.selectionEnd ?? start;
+    if (start !== end) {
+      update(text.slice(0, start) + text.slice(end), start);
+    } else if (start > 0) {
+      update(text.slice(0, start - 1) + text.slice(start), start - 1);
+    }
+  };
+
+  const fieldProps = {
+    className: cn(
+      'w-full p-3 border rounded-lg text-lg focus:outline-none focus:ring-2 focus:ring-purple-500',
+      className
+    ),
+    value: text,
+    placeholder,
+    disabled,
+    lang: 'ne',
+    autoComplete: 'off',
+    autoCorrect: 'off',
+    autoCapitalize: 'off',
+    spellCheck: false,
+    // The on-screen keyboard replaces the system one while it is open
+    inputMode: showKeyboard ? ('none' as const) : undefined,
+    'aria-label': ariaLabel,
+    'aria-autocomplete': 'list' as const,
+    'aria-expanded': showCandidates,
+    onChange: handleChange,
+    onKeyDown: handleKeyDown,
+    onSelect: handleSelect,
+    onFocus: () => setIsFocused(true),
+    onBlur: handleBlur
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        {multiline ? (
+          <textarea ref={inputRef as React.Ref<HTMLTextAreaElement>} rows={rows} {...fieldProps} />
+        ) : (
+          <input ref={inputRef as React.Ref<HTMLInputElement>} type="text" {...fieldProps} />
+        )}
+
+        {showCandidates && (
+          <ul
+            className="absolute left-0 z-20 mt-1 min-w-[10rem] bg-white border rounded-lg shadow-lg py-1"
+            role="listbox"
+            aria-label="Devanagari suggestions"
+          >
+            {candidates.map((candidate, index) => (
+              <li
+                key={candidate}
+                role="option"
+                aria-selected={index === selected}
+                className={`flex items-center px-3 py-1 cursor-pointer text-lg ${
+                  index === selected ? 'bg-purple-100 text-purple-900' : 'hover:bg-gray-100'
+                }`}
+                // mousedown keeps the focus in the input
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  commitCandidate(index);
+                }}
+                lang="ne"
+              >
+                <span className="w-5 text-xs text-gray-400">{index + 1}</span>
+                {candidate}
+              </li>
+            ))}
+            <li className="px-3 pt-1 text-xs text-gray-400 border-t mt-1">{composingWord}</li>
+          </ul>
+        )}
+      </div>
+
+      {showToolbar && (
+        <div className="flex items-center mt-1 space-x-2 text-xs text-gray-500">
+          <button
+            type="button"
+            className={`px-2 py-1 rounded-md border transition-colors ${
+              transliterate ? 'bg-purple-600 text-white border-purple-600' : 'bg-white hover:bg-gray-100'
+            }`}
+            onClick={() => setTransliterate(!transliterate)}
+            aria-pressed={transliterate}
+            title={transliterate ? 'Turn off romanized typing' : 'Turn on romanized typing'}
+            disabled={disabled}
+          >
+            {transliterate ? 'अ' : 'A'}
+          </button>
+          <button
+            type="button"
+            className={`p-1 rounded-md border transition-colors ${
+              showKeyboard ? 'bg-purple-600 text-white border-purple-600' : 'bg-white hover:bg-gray-100'
+            }`}
+            onClick={() => {
+              setShowKeyboard(!showKeyboard);
+              inputRef.current?.focus();
+            }}
+            aria-pressed={showKeyboard}
+            aria-label="On-screen keyboard"
+            title="On-screen keyboard"
+            disabled={disabled}
+          >
+            <Keyboard className="h-4 w-4" />
+          </button>
+          <span>
+            {transliterate
+              ? 'Type in roman letters, e.g. "namaste" → नमस्ते. Space or Enter picks the suggestion.'
+              : 'Romanized typing is off.'}
+          </span>
+        </div>
+      )}
+
+      {showKeyboard && !disabled && (
+        <DevanagariKeyboard onKey={insertText} onBackspace={deleteBackward} disabled={disabled} />
+      )}
+    </div>
+  );
+};
+
+export default DevanagariInput;
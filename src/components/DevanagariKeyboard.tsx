@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Delete } from 'lucide-react';
+
+// Vowel signs are typed after a consonant; the dotted circle shows where they attach
+const VOWEL_SIGNS = ['ा', 'ि', 'ी', 'ु', 'ू', 'ृ', 'े', 'ै', 'ो', 'ौ', '्', 'ं', 'ँ', 'ः'];
+
+const KEY_ROWS: Record<'letters' | 'vowels', string[][]> = {
+  letters: [
+    ['क', 'ख', 'ग', 'घ', 'ङ', 'च', 'छ', 'ज', 'झ', 'ञ'],
+    ['ट', 'ठ', 'ड', 'ढ', 'ण', 'त', 'थ', 'द', 'ध', 'न'],
+    ['प', 'फ', 'ब', 'भ', 'म', 'य', 'र', 'ल', 'व'],
+    ['श', 'ष', 'स', 'ह', 'क्ष', 'त्र', 'ज्ञ', 'श्र']
+  ],
+  vowels: [
+    ['अ', 'आ', 'इ', 'ई', 'उ', 'ऊ', 'ऋ', 'ए', 'ऐ', 'ओ', 'औ'],
+    ['०', '१', '२', '३', '४', '५', '६', '७', '८', '९'],
+    ['।', '?', ',', '!']
+  ]
+};
+
+interface DevanagariKeyboardProps {
+  onKey: (text: string) => void;
+  onBackspace: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * On-screen Devanagari keyboard for touch devices without a Nepali layout.
+ * Keys keep the focus in the input they type into.
+ */
+const DevanagariKeyboard: React.FC<DevanagariKeyboardProps> = ({ onKey, onBackspace, disabled }) => {
+  const [layout, setLayout] = useState<'letters' | 'vowels'>('letters');
+
+  const keyClassName =
+    'min-w-[2.25rem] h-10 px-1 rounded-md bg-white border text-lg hover:bg-purple-100 active:bg-purple-200 disabled:opacity-50';
+
+  // Prevent the mousedown from blurring the input
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  const renderKey = (label: string, text = label) => (
+    <button
+      key={label}
+      type="button"
+      className={keyClassName}
+      onMouseDown={keepFocus}
+      onClick={() => onKey(text)}
+      disabled={disabled}
+      lang="ne"
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="mt-2 p-2 bg-gray-100 rounded-lg space-y-1 select-none" aria-label="Devanagari keyboard">
+      {KEY_ROWS[layout].map((row, index) => (
+        <div key={index} className="flex flex-wrap justify-center gap-1">
+          {row.map(key => renderKey(key))}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap justify-center gap-1">
+        {VOWEL_SIGNS.map(sign => renderKey(`◌${sign}`, sign))}
+      </div>
+
+      <div className="flex justify-center gap-1">
+        <button
+          type="button"
+          className={`${keyClassName} px-3 text-sm`}
+          onMouseDown={keepFocus}
+          onClick={() => setLayout(layout === 'letters' ? 'vowels' : 'letters')}
+          disabled={disabled}
+        >
+          {layout === 'letters' ? 'अ १' : 'क ख'}
+        </button>
+        <button
+          type="button"
+          className={`${keyClassName} flex-1 max-w-xs text-sm`}
+          onMouseDown={keepFocus}
+          onClick={() => onKey(' ')}
+          disabled={disabled}
+        >
+          space
+        </button>
+        <button
+          type="button"
+          className={`${keyClassName} px-3 flex items-center justify-center`}
+          onMouseDown={keepFocus}
+          onClick={onBackspace}
+          disabled={disabled}
+          aria-label="Backspace"
+        >
+          <Delete className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DevanagariKeyboard;
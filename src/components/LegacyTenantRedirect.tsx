@@ -0,0 +1,24 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+
+/**
+ * Redirects pre-tenant URLs such as `/tasks/:id` to the same page under the
+ * last used tenant, so old links and bookmarks keep working
+ */
+const LegacyTenantRedirect: React.FC = () => {
+  const { tenantSlug, isHydrated } = useAuth();
+  const location = useLocation();
+
+  if (!isHydrated) {
+    return null;
+  }
+
+  if (!tenantSlug) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <Navigate to={`/${tenantSlug}${location.pathname}${location.search}`} replace state={location.state} />;
+};
+
+export default LegacyTenantRedirect;
@@ -9,18 +9,34 @@ import {
   Settings, 
   LogOut, 
   User,
-  ChevronRight
+  ChevronRight,
+  Building2,
+  Plus,
+  RotateCcw,
+  BookOpen,
+  TrendingUp
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useTenantPath } from '@/hooks/useTenantPath';
+import { useTenant } from '@/context/TenantContext';
+import { useReviewQueue } from '@/hooks/useReviewQueue';
+import { hasAllowedRole, RECORDING_ROLES } from '@/lib/roles';
+import ScriptToggle from '@/components/ScriptToggle';
 
 const SideNavigation: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, tenantSlug, signedInTenants } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const tenantPath = useTenantPath();
+  const { displayName, logoUrl } = useTenant();
+  const { dueCount } = useReviewQueue();
+
+  // Other tenants this browser is signed in to
+  const otherTenants = signedInTenants.filter((slug) => slug !== tenantSlug);
 
   const handleLogout = () => {
     logout();
-    navigate('/');
+    navigate(tenantPath('/login'));
   };
 
   // Navigation items
@@ -30,16 +46,38 @@ const SideNavigation: React.FC = () => {
       path: '/dashboard',
       icon: <Home className="w-5 h-5" />
     },
-    {
+    // Only for roles allowed to record
+    ...(hasAllowedRole(user?.role, RECORDING_ROLES) ? [{
       name: 'Record Audio',
       path: '/begin-learning',
       icon: <Mic className="w-5 h-5" />
-    },
+    }] : []),
     {
       name: 'Tasks',
       path: '/tasks',
       icon: <BarChart2 className="w-5 h-5" />
     },
+    {
+      name: 'Review',
+      path: '/review',
+      icon: <RotateCcw className="w-5 h-5" />,
+      badge: dueCount // Tasks due for review today
+    },
+    {
+      name: 'Vocabulary',
+      path: '/vocabulary',
+      icon: <BookOpen className="w-5 h-5" />
+    },
+    {
+      name: 'Progress',
+      path: '/progress',
+      icon: <TrendingUp className="w-5 h-5" />
+    },
+    {
+      name: 'Profile',
+      path: '/profile',
+      icon: <User className="w-5 h-5" />
+    },
     {
       name: 'Settings',
       path: '/settings',
@@ -51,8 +89,11 @@ const SideNavigation: React.FC = () => {
     <div className="hidden md:flex flex-col w-64 bg-white border-r border-gray-200 h-screen overflow-y-auto">
       {/* Logo */}
       <div className="p-4 border-b">
-        <Link to="/dashboard" className="flex items-center">
-          <h2 className="text-2xl font-bold text-nepali-red">Nepali App</h2>
+        <Link to={tenantPath('/dashboard')} className="flex items-center">
+          {logoUrl && (
+            <img src={logoUrl} alt="" className="h-8 w-8 mr-2 object-contain" />
+          )}
+          <h2 className="text-2xl font-bold text-nepali-red">{displayName}</h2>
         </Link>
       </div>
 
@@ -61,21 +102,58 @@ const SideNavigation: React.FC = () => {
         {navItems.map((item) => (
           <Link
             key={item.path}
-            to={item.path}
+            to={tenantPath(item.path)}
             className={cn(
               "flex items-center px-3 py-2 text-sm rounded-md hover:bg-gray-100 transition-colors",
-              location.pathname === item.path ? "bg-gray-100 text-nepali-red font-medium" : "text-gray-700"
+              location.pathname === tenantPath(item.path) ? "bg-gray-100 text-nepali-red font-medium" : "text-gray-700"
             )}
           >
             <span className="mr-3">{item.icon}</span>
             {item.name}
-            {location.pathname === item.path && (
+            {item.badge > 0 && (
+              <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">
+                {item.badge}
+              </span>
+            )}
+            {location.pathname === tenantPath(item.path) && (
               <ChevronRight className="ml-auto h-4 w-4" />
             )}
           </Link>
         ))}
       </nav>
 
+      {/* Nepali script */}
+      <div className="p-4 border-t space-y-2">
+        <p className="px-3 text-xs font-medium uppercase text-gray-400">Nepali script</p>
+        <ScriptToggle className="px-3" />
+      </div>
+
+      {/* Tenant switcher */}
+      <div className="p-4 border-t space-y-1">
+        <p className="px-3 text-xs font-medium uppercase text-gray-400">Tenants</p>
+        <div className="flex items-center px-3 py-2 text-sm text-nepali-red font-medium">
+          <Building2 className="w-4 h-4 mr-3" />
+          {user?.tenantLabel || tenantSlug}
+        </div>
+        {otherTenants.map((slug) => (
+          <Link
+            key={slug}
+            to={`/${slug}/dashboard`}
+            className="flex items-center px-3 py-2 text-sm text-gray-700 rounded-md hover:bg-gray-100 transition-colors"
+          >
+            <Building2 className="w-4 h-4 mr-3" />
+            {slug}
+          </Link>
+        ))}
+        <button
+          onClick={() => navigate('/', { state: { addTenant: true } })}
+          className="w-full flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-3" />
+          Sign in to another tenant
+        </button>
+      </div>
+
       {/* User Section */}
       <div className="p-4 border-t">
         <div className="flex items-center space-x-3 mb-4">
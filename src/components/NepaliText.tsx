@@ -0,0 +1,37 @@
+import React from 'react';
+import { useScript } from '@/context/ScriptContext';
+import { containsDevanagari } from '@/lib/devanagari';
+import { cn } from '@/lib/utils';
+
+interface NepaliTextProps {
+  text: string | undefined | null;
+  className?: string;
+}
+
+/**
+ * Nepali text in the script the user chose: Devanagari, romanized, or both
+ * with the romanization in smaller type underneath. Text without Devanagari
+ * (e.g. English prompts) is shown as is.
+ */
+const NepaliText: React.FC<NepaliTextProps> = ({ text, className }) => {
+  const { display, romanize } = useScript();
+
+  if (!text) return null;
+
+  if (display === 'devanagari' || !containsDevanagari(text)) {
+    return <span className={className} lang="ne">{text}</span>;
+  }
+
+  if (display === 'roman') {
+    return <span className={className} lang="ne-Latn" title={text}>{romanize(text)}</span>;
+  }
+
+  return (
+    <span className={cn('inline-flex flex-col leading-tight align-middle', className)}>
+      <span lang="ne">{text}</span>
+      <span className="text-[0.7em] font-normal text-gray-500" lang="ne-Latn">{romanize(text)}</span>
+    </span>
+  );
+};
+
+export default NepaliText;
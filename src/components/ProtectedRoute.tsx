@@ -0,0 +1,63 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation, useParams } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { LoginRedirectState } from '@/hooks/useLoginRedirect';
+import { hasAllowedRole } from '@/lib/roles';
+import DailyGoalReminder from '@/components/DailyGoalReminder';
+import AchievementTracker from '@/components/AchievementTracker';
+
+interface ProtectedRouteProps {
+  /** Roles allowed to open the nested routes; any authenticated user when omitted */
+  allowedRoles?: string[];
+}
+
+/**
+ * Layout route that renders its nested routes only for authenticated users.
+ * Waits for the stored session to load, then sends anonymous users to the login
+ * page with the requested location so they can be returned there afterwards.
+ */
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ allowedRoles }) => {
+  const { isAuthenticated, isHydrated, user } = useAuth();
+  const { slug } = useParams<{ slug: string }>();
+  const location = useLocation();
+
+  if (!isHydrated) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !user) {
+    const state: LoginRedirectState = { from: location };
+    return <Navigate to={`/${slug}/login`} replace state={state} />;
+  }
+
+  if (!hasAllowedRole(user.role, allowedRoles)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-nepali-red" />
+          <h1 className="text-2xl font-bold mb-2">Access denied</h1>
+          <p className="text-gray-600 mb-4">Your account doesn't have permission to view this page.</p>
+          <a href={`/${slug}/dashboard`} className="text-blue-500 hover:text-blue-700 underline">
+            Return to Dashboard
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <DailyGoalReminder />
+      {/* Remounted per user so badges are never judged on another user's data */}
+      <AchievementTracker key={`${slug}:${user.id}`} />
+      <Outlet />
+    </>
+  );
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { saveVocabularyEntry } from "@/api/vocabularyNotebook";
+import { VocabularyCandidate } from "@/components/TaskTypes";
+import DevanagariInput from "@/components/DevanagariInput";
+import NepaliText from "@/components/NepaliText";
+
+interface SaveWordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  candidates: VocabularyCandidate[]; // Words found in the task, offered as shortcuts
+  taskId?: string;
+  taskSetId?: string;
+}
+
+const parseTags = (value: string): string[] => value.split(",");
+
+/**
+ * Modal for saving a word from a task to the vocabulary notebook
+ */
+const SaveWordDialog: React.FC<SaveWordDialogProps> = ({ open, onOpenChange, candidates, taskId, taskSetId }) => {
+  const [word, setWord] = useState("");
+  const [meaning, setMeaning] = useState("");
+  const [tags, setTags] = useState("");
+  const [audioUrl, setAudioUrl] = useState<string | undefined>(undefined);
+
+  // Start from the first word of the task each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const [first] = candidates;
+    setWord(first?.word || "");
+    setMeaning(first?.meaning || "");
+    setAudioUrl(first?.audioUrl);
+    setTags("");
+  }, [open, candidates]);
+
+  const selectCandidate = (candidate: VocabularyCandidate) => {
+    setWord(candidate.word);
+    setMeaning(candidate.meaning || "");
+    setAudioUrl(candidate.audioUrl);
+  };
+
+  const handleWordChange = (value: string) => {
+    setWord(value);
+    // A typed word only keeps the audio hint of the word it was picked as
+    if (!candidates.some((candidate) => candidate.word === value)) {
+      setAudioUrl(undefined);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!word.trim()) return;
+
+    try {
+      saveVocabularyEntry({ word, meaning, tags: parseTags(tags), audioUrl, taskId, taskSetId });
+      toast({ title: "Word saved", description: `${word.trim()} was added to your vocabulary.` });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving word:", error);
+      toast({ title: "Could not save the word", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSave}>
+          <DialogHeader>
+            <DialogTitle>Save a word</DialogTitle>
+            <DialogDescription>Add a word from this task to your vocabulary notebook.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {candidates.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {candidates.map((candidate) => (
+                  <button
+                    key={candidate.word}
+                    type="button"
+                    className={`px-3 py-1 rounded-full border text-sm ${
+                      candidate.word === word
+                        ? "bg-purple-600 text-white border-purple-600"
+                        : "bg-white text-gray-700 border-gray-300 hover:border-purple-400"
+                    }`}
+                    onClick={() => selectCandidate(candidate)}
+                  >
+                    <NepaliText text={candidate.word} />
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Word</label>
+              <DevanagariInput value={word} onChange={handleWordChange} aria-label="Word" />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium" htmlFor="save-word-meaning">Meaning</label>
+              <Input
+                id="save-word-meaning"
+                value={meaning}
+                onChange={(e) => setMeaning(e.target.value)}
+                placeholder="e.g. water"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium" htmlFor="save-word-tags">Tags</label>
+              <Input
+                id="save-word-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="Comma separated, e.g. food, verbs"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!word.trim()}>
+              Save word
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveWordDialog;
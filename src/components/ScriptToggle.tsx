@@ -0,0 +1,59 @@
+import React from 'react';
+import { ScriptDisplay, useScript } from '@/context/ScriptContext';
+import { RomanizationScheme } from '@/lib/transliteration';
+
+const DISPLAY_OPTIONS: { value: ScriptDisplay; label: string; title: string }[] = [
+  { value: 'devanagari', label: 'नेपाली', title: 'Show Nepali in Devanagari' },
+  { value: 'roman', label: 'Roman', title: 'Show Nepali in Latin letters' },
+  { value: 'both', label: 'Both', title: 'Show Devanagari with the romanization underneath' }
+];
+
+const ROMANIZATION_OPTIONS: { value: RomanizationScheme; label: string }[] = [
+  { value: 'simple', label: 'Simple (namaste)' },
+  { value: 'iso', label: 'ISO 15919 (namastē)' }
+];
+
+/**
+ * Switch between Devanagari, romanized and stacked display of Nepali text
+ */
+const ScriptToggle: React.FC<{ className?: string }> = ({ className }) => {
+  const { display, romanization, setDisplay, setRomanization } = useScript();
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-sm ${className || ''}`}>
+      <div className="inline-flex rounded-lg border overflow-hidden" role="group" aria-label="Nepali script">
+        {DISPLAY_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            className={`px-3 py-1 transition-colors ${
+              display === option.value ? 'bg-purple-600 text-white' : 'bg-white hover:bg-purple-50'
+            }`}
+            onClick={() => setDisplay(option.value)}
+            aria-pressed={display === option.value}
+            title={option.title}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {display !== 'devanagari' && (
+        <select
+          className="px-2 py-1 border rounded-lg bg-white"
+          value={romanization}
+          onChange={(e) => setRomanization(e.target.value as RomanizationScheme)}
+          aria-label="Romanization"
+        >
+          {ROMANIZATION_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default ScriptToggle;
@@ -0,0 +1,94 @@
+import React, { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { loginUser } from "@/api/authService";
+import { UserData } from "@/types/User";
+
+interface SessionExpiredDialogProps {
+  open: boolean;
+  username: string;
+  tenantSlug: string;
+  onReauthenticated: (user: UserData) => void;
+  onSignOut: () => void;
+}
+
+/**
+ * Modal asking the user to sign in again when their session can no longer be refreshed.
+ * The current page stays mounted underneath, so lesson progress is kept.
+ */
+const SessionExpiredDialog: React.FC<SessionExpiredDialogProps> = ({
+  open,
+  username,
+  tenantSlug,
+  onReauthenticated,
+  onSignOut
+}) => {
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    setIsLoading(true);
+    setError(null);
+    const response = await loginUser(username, password, tenantSlug);
+    setIsLoading(false);
+
+    if (response.success && response.user) {
+      setPassword("");
+      onReauthenticated(response.user);
+    } else {
+      setError(response.message || "Login failed");
+    }
+  };
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-nepali-maroon">Session expired</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your session has expired. Enter your password to continue where you left off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            <Input type="text" value={username} disabled className="w-full" />
+            <Input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              required
+              className="w-full"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <AlertDialogFooter>
+            <Button type="button" variant="outline" onClick={onSignOut} disabled={isLoading}>
+              Sign Out
+            </Button>
+            <Button type="submit" className="nepali-gradient text-white" disabled={isLoading || !password}>
+              {isLoading ? "Logging in..." : "Continue"}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SessionExpiredDialog;
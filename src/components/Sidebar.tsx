@@ -15,6 +15,7 @@ import {
   BarChart2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useTenantPath } from '@/hooks/useTenantPath';
 
 interface SidebarProps {
   className?: string;
@@ -22,6 +23,7 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ className }) => {
   const location = useLocation();
+  const tenantPath = useTenantPath();
   const [collapsed, setCollapsed] = useState(false);
   const [mobileOpen, setMobileOpen] = useState(false);
 
@@ -36,7 +38,7 @@ const Sidebar: React.FC<SidebarProps> = ({ className }) => {
   ];
 
   const isActive = (path: string) => {
-    return location.pathname === path;
+    return location.pathname === tenantPath(path);
   };
 
   return (
@@ -112,7 +114,7 @@ const Sidebar: React.FC<SidebarProps> = ({ className }) => {
             {navItems.map((item) => (
               <li key={item.path}>
                 <Link
-                  to={item.path}
+                  to={tenantPath(item.path)}
                   className={cn(
                     "flex items-center px-4 py-3 rounded-lg transition-colors",
                     isActive(item.path)
@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { Bell, Flame, Settings2, Snowflake } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { isReminderSupported, requestReminderPermission } from "@/api/goalReminders";
+import { GoalMetric, MAX_STREAK_FREEZES } from "@/lib/dailyGoals";
+import { useDailyGoal } from "@/hooks/useDailyGoal";
+
+/**
+ * Dashboard card with the goal streak, streak freezes, today's progress and
+ * the goal and reminder settings
+ */
+const StreakWidget: React.FC = () => {
+  const { goal, reminder, todayProgress, streak, freezes, setGoal, setReminder } = useDailyGoal();
+  const [reminderError, setReminderError] = useState<string | null>(null);
+
+  const unit = goal.metric === "tasks" ? "tasks" : "min";
+  const percent = Math.min(100, Math.round((todayProgress.value / Math.max(todayProgress.target, 1)) * 100));
+
+  const handleReminderToggle = async (enabled: boolean) => {
+    setReminderError(null);
+    if (enabled && !(await requestReminderPermission())) {
+      setReminderError("Notifications are blocked for this site. Allow them in your browser settings.");
+      return;
+    }
+    setReminder({ ...reminder, enabled });
+  };
+
+  return (
+    <Card className="shadow-md hover:shadow-lg transition-shadow">
+      <CardHeader className="bg-orange-100 pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl text-nepali-maroon">Daily Goal</CardTitle>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" aria-label="Goal settings">
+                <Settings2 className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-4">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Daily goal</p>
+                <div className="flex space-x-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={goal.target}
+                    onChange={(e) => setGoal({ ...goal, target: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-20"
+                    aria-label="Daily goal"
+                  />
+                  <Select value={goal.metric} onValueChange={(metric) => setGoal({ ...goal, metric: metric as GoalMetric })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="tasks">tasks per day</SelectItem>
+                      <SelectItem value="minutes">minutes per day</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {isReminderSupported() && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium flex items-center" htmlFor="goal-reminder">
+                      <Bell className="h-4 w-4 mr-2" />
+                      Remind me
+                    </label>
+                    <Switch id="goal-reminder" checked={reminder.enabled} onCheckedChange={handleReminderToggle} />
+                  </div>
+                  {reminder.enabled && (
+                    <Input
+                      type="time"
+                      value={reminder.time}
+                      onChange={(e) => e.target.value && setReminder({ ...reminder, time: e.target.value })}
+                      aria-label="Reminder time"
+                    />
+                  )}
+                  <p className="text-xs text-gray-500">
+                    You'll get a notification at this time if you haven't met your goal yet.
+                  </p>
+                  {reminderError && <p className="text-xs text-red-600">{reminderError}</p>}
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Flame className={`h-8 w-8 mr-2 ${streak.current > 0 ? "text-orange-500" : "text-gray-300"}`} />
+            <div>
+              <p className="text-2xl font-bold">{streak.current} {streak.current === 1 ? "day" : "days"}</p>
+              <p className="text-xs text-gray-500">Longest: {streak.longest}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-1" title={`${freezes} of ${MAX_STREAK_FREEZES} streak freezes. A freeze covers a missed day.`}>
+            {Array.from({ length: MAX_STREAK_FREEZES }, (_, index) => (
+              <Snowflake key={index} className={`h-5 w-5 ${index < freezes ? "text-sky-500" : "text-gray-200"}`} />
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-600">Today</span>
+            <span className="font-medium">
+              {todayProgress.value}/{todayProgress.target} {unit}
+            </span>
+          </div>
+          <Progress value={percent} className="h-2" />
+          <p className="mt-2 text-sm text-gray-600">
+            {todayProgress.met ? "Goal met for today. Well done!" : "Meet your goal today to keep your streak."}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StreakWidget;
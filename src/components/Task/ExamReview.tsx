@@ -0,0 +1,104 @@
+import React from 'react';
+import { CircleDashed, Pencil } from 'lucide-react';
+import { Task } from '@/api/taskService';
+import NepaliText from '@/components/NepaliText';
+import { formatAnswer, getTaskId } from '@/lib/taskAnswers';
+
+interface ExamReviewProps {
+  taskRefs: Array<Task | string>; // Task IDs or objects of the set, in order
+  tasks: Task[]; // Loaded tasks, indexed by position
+  answers: Record<string, unknown>;
+  submitting?: boolean;
+  error?: string | null;
+  onEditTask: (index: number) => void;
+  onSubmit: () => void;
+}
+
+/**
+ * Exam mode review page listing the collected answers before they are
+ * submitted together. Nothing is checked until the learner submits.
+ */
+const ExamReview: React.FC<ExamReviewProps> = ({
+  taskRefs,
+  tasks,
+  answers,
+  submitting,
+  error,
+  onEditTask,
+  onSubmit
+}) => {
+  const unansweredCount = taskRefs.filter(ref => answers[getTaskId(ref)] === undefined).length;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="text-center mb-6">
+        <h2 className="text-2xl font-bold mb-2">Review your answers</h2>
+        <p className="text-gray-600">
+          {unansweredCount > 0
+            ? `${unansweredCount} of ${taskRefs.length} tasks are not answered yet.`
+            : 'All tasks are answered.'}{' '}
+          Answers can't be changed after submitting.
+        </p>
+      </div>
+
+      <ul className="space-y-3">
+        {taskRefs.map((taskRef, index) => {
+          const taskId = getTaskId(taskRef);
+          const task = tasks[index];
+          const answer = taskId ? answers[taskId] : undefined;
+
+          return (
+            <li
+              key={taskId || index}
+              className={`p-4 rounded-lg border flex items-start justify-between ${
+                answer === undefined ? 'border-yellow-200 bg-yellow-50' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-start">
+                {answer === undefined && (
+                  <CircleDashed className="h-5 w-5 text-yellow-500 mr-3 mt-0.5 flex-shrink-0" />
+                )}
+                <div>
+                  <p className="font-medium">
+                    {index + 1}. <NepaliText text={task?.question || task?.word || `Task ${index + 1}`} />
+                  </p>
+                  <p className="text-sm mt-1">
+                    <span className="text-gray-500">Your answer: </span>
+                    {answer === undefined ? 'Not answered' : <NepaliText text={formatAnswer(answer)} />}
+                  </p>
+                </div>
+              </div>
+
+              <button
+                className="ml-4 px-3 py-1 text-sm rounded-lg bg-gray-200 hover:bg-gray-300 flex items-center flex-shrink-0"
+                onClick={() => onEditTask(index)}
+                disabled={submitting}
+              >
+                <Pencil className="h-3 w-3 mr-1" />
+                {answer === undefined ? 'Answer' : 'Change'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-100 text-red-800 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end">
+        <button
+          className="px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:bg-purple-300"
+          onClick={onSubmit}
+          disabled={submitting || unansweredCount === taskRefs.length}
+        >
+          {submitting ? 'Submitting...' : 'Submit exam'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExamReview;
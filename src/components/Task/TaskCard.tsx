@@ -4,6 +4,9 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { TaskSet } from '@/api/taskListService';
 import { useNavigate } from 'react-router-dom';
+import { CheckCircle, Download, Trash2 } from 'lucide-react';
+import { useTenantPath } from '@/hooks/useTenantPath';
+import { useOfflineTaskSet } from '@/hooks/useOfflineTaskSet';
 
 interface TaskCardProps {
   task: TaskSet;
@@ -14,6 +17,8 @@ interface TaskCardProps {
  */
 const TaskCard: React.FC<TaskCardProps> = ({ task }) => {
   const navigate = useNavigate();
+  const tenantPath = useTenantPath();
+  const offline = useOfflineTaskSet(task?._id);
 
   // Format date to a readable format
   const formatDate = (dateString: string) => {
@@ -57,10 +62,27 @@ const TaskCard: React.FC<TaskCardProps> = ({ task }) => {
   const handleCardClick = () => {
     if (task && task._id) {
       // Navigate to task detail page and pass state to indicate we came from tasks list
-      navigate(`/tasks/${task._id}`, { state: { from: 'tasks' } });
+      navigate(tenantPath(`/tasks/${task._id}`), { state: { from: 'tasks' } });
     }
   };
 
+  // Open the set in exam mode, where answers are only checked once all are submitted
+  const handleExamClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(tenantPath(`/tasks/${task._id}?mode=exam`), { state: { from: 'tasks' } });
+  };
+
+  // Store the set with its tasks, images and audio hints so it can be done without a connection
+  const handleDownloadClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    offline.download();
+  };
+
+  const handleRemoveDownloadClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    offline.remove();
+  };
+
   // If task is undefined or missing required properties, show a placeholder
   if (!task || !task._id) {
     return (
@@ -114,6 +136,43 @@ const TaskCard: React.FC<TaskCardProps> = ({ task }) => {
             <div>Score: 0/60</div>
           )}
         </div>
+
+        <div className="flex justify-between items-center mt-3">
+          {offline.isAvailable ? (
+            <div className="flex items-center text-xs text-green-700">
+              <CheckCircle className="h-3.5 w-3.5 mr-1" />
+              Available offline
+              <button
+                className="ml-2 text-gray-400 hover:text-red-600"
+                onClick={handleRemoveDownloadClick}
+                title="Remove download"
+                aria-label="Remove download"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ) : offline.isDownloading ? (
+            <span className="text-xs text-gray-500">
+              Downloading{offline.progress.total > 0 && ` ${offline.progress.completed}/${offline.progress.total}`}...
+            </span>
+          ) : (
+            <button
+              className="flex items-center text-xs font-medium text-gray-600 hover:text-purple-700 disabled:text-gray-300"
+              onClick={handleDownloadClick}
+              disabled={!navigator.onLine}
+              title={offline.error || 'Save this task set to practice without a connection'}
+            >
+              <Download className="h-3.5 w-3.5 mr-1" />
+              {offline.error ? 'Download failed, retry' : 'Download for offline'}
+            </button>
+          )}
+          <button
+            className="text-xs font-medium text-purple-600 hover:text-purple-800"
+            onClick={handleExamClick}
+          >
+            Take as exam
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Input } from '@/components/ui/input';
+import DevanagariInput from '@/components/DevanagariInput';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
@@ -83,11 +83,15 @@ const TaskFilter: React.FC<TaskFilterProps> = ({ filter, onFilterChange }) => {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-3">
         {/* Search input */}
         <div className="relative">
-          <Input
+          {/* Romanized typing is opt-in here, since searches may be in English */}
+          <DevanagariInput
             placeholder="Search tasks..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-9 h-9"
+            onChange={setSearch}
+            onEnter={applyFilters}
+            defaultTransliterate={false}
+            className="pl-9 py-2 h-9 text-sm rounded-md"
+            aria-label="Search tasks"
           />
           <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
         </div>
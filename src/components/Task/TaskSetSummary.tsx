@@ -0,0 +1,140 @@
+import React from 'react';
+import { CheckCircle2, XCircle, CircleDashed } from 'lucide-react';
+import { Task, TaskAnswerResult, TaskSetScores } from '@/api/taskService';
+import NepaliText from '@/components/NepaliText';
+import { formatAnswer, getTaskId } from '@/lib/taskAnswers';
+
+interface TaskSetSummaryProps {
+  taskRefs: Array<Task | string>; // Task IDs or objects of the set, in order
+  tasks: Task[]; // Loaded tasks, indexed by position
+  answers: Record<string, unknown>;
+  results: Record<string, TaskAnswerResult>;
+  scores: TaskSetScores | null;
+  loadingScores?: boolean;
+  onReviewTask: (index: number) => void;
+  onRestart: () => void;
+  onFinish: () => void;
+}
+
+/**
+ * Results page shown when a task set is finished, listing each task's
+ * outcome and letting the learner go back to the ones they missed.
+ */
+const TaskSetSummary: React.FC<TaskSetSummaryProps> = ({
+  taskRefs,
+  tasks,
+  answers,
+  results,
+  scores,
+  loadingScores,
+  onReviewTask,
+  onRestart,
+  onFinish
+}) => {
+  const answeredCount = taskRefs.filter(ref => results[getTaskId(ref)]).length;
+  const correctCount = taskRefs.filter(ref => results[getTaskId(ref)]?.is_correct).length;
+  const scored = scores?.scored ?? scores?.tasks?.reduce((sum, task) => sum + (task.score || 0), 0) ?? 0;
+  const maxScore = scores?.max_score || 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="text-center mb-6">
+        <h2 className="text-2xl font-bold mb-2">Task set complete</h2>
+        {loadingScores ? (
+          <div className="flex items-center justify-center text-gray-500">
+            <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-purple-500 mr-2"></div>
+            <span>Loading scores...</span>
+          </div>
+        ) : (
+          <div className="text-3xl font-semibold text-purple-700">
+            {scored}/{maxScore}
+          </div>
+        )}
+        <p className="text-gray-600 mt-2">
+          {correctCount} of {taskRefs.length} correct
+          {answeredCount < taskRefs.length && ` · ${taskRefs.length - answeredCount} not answered`}
+        </p>
+      </div>
+
+      <ul className="space-y-3">
+        {taskRefs.map((taskRef, index) => {
+          const taskId = getTaskId(taskRef);
+          const task = tasks[index];
+          const result = taskId ? results[taskId] : undefined;
+          const taskScore = scores?.tasks?.find(t => t.task_id === taskId);
+          const needsReview = !result?.is_correct;
+
+          return (
+            <li
+              key={taskId || index}
+              className={`p-4 rounded-lg border ${
+                !result
+                  ? 'border-gray-200 bg-gray-50'
+                  : result.is_correct
+                    ? 'border-green-200 bg-green-50'
+                    : 'border-red-200 bg-red-50'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex items-start">
+                  {!result ? (
+                    <CircleDashed className="h-5 w-5 text-gray-400 mr-3 mt-0.5 flex-shrink-0" />
+                  ) : result.is_correct ? (
+                    <CheckCircle2 className="h-5 w-5 text-green-600 mr-3 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="h-5 w-5 text-red-600 mr-3 mt-0.5 flex-shrink-0" />
+                  )}
+                  <div>
+                    <p className="font-medium">
+                      {index + 1}. <NepaliText text={task?.question || task?.word || `Task ${index + 1}`} />
+                    </p>
+                    {result ? (
+                      <div className="text-sm mt-1 space-y-1">
+                        <p>
+                          <span className="text-gray-500">Your answer: </span>
+                          <NepaliText text={formatAnswer(answers[taskId])} />
+                        </p>
+                        {!result.is_correct && result.correct_answer && (
+                          <p>
+                            <span className="text-gray-500">Correct answer: </span>
+                            <NepaliText text={formatAnswer(result.correct_answer)} />
+                          </p>
+                        )}
+                        {result.feedback && <p className="text-gray-600">{result.feedback}</p>}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500 mt-1">Not answered</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-col items-end ml-4 flex-shrink-0">
+                  {taskScore && <span className="text-sm text-gray-600">{taskScore.score} pt</span>}
+                  {needsReview && (
+                    <button
+                      className="mt-2 px-3 py-1 text-sm rounded-lg bg-purple-600 text-white hover:bg-purple-700"
+                      onClick={() => onReviewTask(index)}
+                    >
+                      Review
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-6 flex justify-between">
+        <button className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300" onClick={onRestart}>
+          Restart set
+        </button>
+        <button className="px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700" onClick={onFinish}>
+          Back to tasks
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskSetSummary;
@@ -1,199 +1,154 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BookmarkPlus, CloudOff } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import { Task, submitTaskAnswer } from '../api/taskService';
-import{ uploadAudioFile, FileUploadResponse} from '../api/fileService';
-import { useRecorder } from '../hooks/useAudioRecorder';
+import { useTenant } from '../context/TenantContext';
+import { Task, TaskAnswerResult } from '../api/taskService';
+import { isPendingAudioAnswer, submitOrQueueAnswer } from '../api/answerOutbox';
+import { toApiError } from '../api/httpBase';
+import { isUploadCancelled, UPLOAD_EMPTY, UPLOAD_TOO_LARGE } from '../api/fileService';
+import { getTaskType, getTaskVocabulary, TaskResultBanner } from './TaskTypes';
+import SaveWordDialog from './SaveWordDialog';
+import NepaliText from './NepaliText';
+import { useAnswerOutbox } from '../hooks/useAnswerOutbox';
 
 interface TaskItemProps {
   task: Task;
-  onAnswerSubmitted?: (taskId: string, isCorrect: boolean) => void;
+  savedAnswer?: unknown; // Answer submitted earlier in a resumed session
+  savedResult?: TaskAnswerResult; // Result of that submission
+  onAnswerSubmitted?: (taskId: string, isCorrect: boolean, answer: unknown, result: TaskAnswerResult) => void;
+  examMode?: boolean; // Collect the answer through onAnswerCollected instead of checking it
+  onAnswerCollected?: (taskId: string, answer: unknown) => void;
+  readOnly?: boolean; // Show the saved answer and result without allowing a new submission
   onNext?: () => void;
   score?: number;
   maxScore?: number;
+  taskSetId?: string; // Stored with answers queued offline, so their results find their way back
 }
 
-const TaskItem: React.FC<TaskItemProps> = ({ task, onAnswerSubmitted, onNext, score }) => {
+/**
+ * Renders a task through its registered task type and handles submitting the answer.
+ * Task types are declared in ./TaskTypes.
+ */
+const TaskItem: React.FC<TaskItemProps> = ({
+  task,
+  savedAnswer,
+  savedResult,
+  onAnswerSubmitted,
+  examMode,
+  onAnswerCollected,
+  readOnly,
+  onNext,
+  score,
+  taskSetId
+}) => {
   const { user } = useAuth();
-  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const { displayName, isTaskTypeEnabled } = useTenant();
+  const taskType = getTaskType(task.type);
+  const { pendingTaskIds, isOnline } = useAnswerOutbox();
+  const isPending = pendingTaskIds.has(task.id || task._id);
+
+  const [answer, setAnswer] = useState<unknown>(undefined);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submissionResult, setSubmissionResult] = useState<any>(null);
+  const [submissionResult, setSubmissionResult] = useState<TaskAnswerResult | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [textAnswer, setTextAnswer] = useState<string>(''); // For answer_in_word task type
-
-  // Audio recording states
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-
-  // Refs
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-
-  // Use the recorder hook
-  const {
-    recording: isRecording,
-    audioUrl: recordedAudioUrl,
-    startRecording,
-    stopRecording
-  } = useRecorder();
-
-  // Reset state when task changes
+  const [answerSaved, setAnswerSaved] = useState(false); // Exam mode: answer collected, not yet checked
+  const [saveWordOpen, setSaveWordOpen] = useState(false);
+  const [submitProgress, setSubmitProgress] = useState<number | null>(null); // e.g. audio upload progress
+  const submitControllerRef = useRef<AbortController | null>(null); // Cancels the submission in flight
+  const isChecked = !!submissionResult;
+  // Words offered by "Save word"; the answer's words only once it has been checked
+  const vocabulary = useMemo(() => getTaskVocabulary(task, taskType, isChecked), [task, taskType, isChecked]);
+
+  // Reset state when task changes, restoring any answer saved for it
   useEffect(() => {
-    // Reset all state variables when the task changes
-    setSelectedOptions([]);
-    setSubmissionResult(null);
+    setAnswer(taskType?.restoreAnswer ? taskType.restoreAnswer(savedAnswer, task) : undefined);
+    setSubmissionResult(savedResult || null);
+    setAnswerSaved(!!examMode && savedAnswer !== undefined);
     setError(null);
     setIsSubmitting(false);
-    setIsUploading(false);
-    setUploadProgress(0);
+    setSubmitProgress(null);
 
     console.log('Task changed, state reset');
-  }, [task.id, task._id]); // Depend on task ID to reset when task changes
-
-  // Handle single choice selection
-  const handleSingleChoiceSelect = (option: string) => {
-    if (isSubmitting) return;
-
-    setSelectedOptions([option]);
-  };
-
-  // Handle multiple choice selection
-  const handleMultipleChoiceSelect = (option: string) => {
-    if (isSubmitting) return;
-
-    setSelectedOptions(prev => {
-      if (prev.includes(option)) {
-        return prev.filter(item => item !== option);
-      } else {
-        return [...prev, option];
-      }
-    });
-  };
-
-  // Handle single choice submission
-  const handleSingleChoiceSubmit = async () => {
-    if (isSubmitting || selectedOptions.length === 0) return;
-
-    console.log('Submitting single choice answer:', selectedOptions[0]);
-    await submitAnswer(selectedOptions[0]);
-  };
-
-  // Submit multiple choice answer
-  const handleMultipleChoiceSubmit = async () => {
-    if (isSubmitting || selectedOptions.length === 0) return;
-
-    console.log('Submitting multiple choice answers:', selectedOptions);
-    await submitAnswer(selectedOptions);
-  };
 
-  // Handle audio file upload using the service
-  const handleAudioFileUpload = async (audioBlob: Blob): Promise<{object_name: string, folder: string}> => {
-    if (!user) throw new Error('User not authenticated');
+    // Leaving the task cancels its unfinished upload
+    return () => {
+      submitControllerRef.current?.abort();
+    };
+  }, [task, taskType, savedAnswer, savedResult, examMode]); // Depend on the task to reset when it changes
 
-    try {
-      setIsUploading(true);
-      setUploadProgress(0);
-
-      // Use the uploadAudioFile service
-      const fileInfo = await uploadAudioFile(audioBlob, user);
-      console.log('File info returned from uploadAudioFile:', fileInfo);
-
-      // Set progress to 50% after upload completes
-      setUploadProgress(50);
-
-      // Simulate progress to 100%
-      setTimeout(() => {
-        setUploadProgress(100);
-      }, 500);
-
-      return {
-        object_name: fileInfo.object_name,
-        folder: fileInfo.folder
-      };
-    } catch (error) {
-      console.error('Error uploading audio:', error);
-      throw error;
-    } finally {
-      setIsUploading(false);
-    }
-  };
-
-  // Handle audio recording submission
-  const handleAudioSubmit = async () => {
-    if (!recordedAudioUrl) {
-      setError('No audio recorded');
-      return;
-    }
-
-    try {
-      setIsSubmitting(true);
-      setError(null);
-
-      // Fetch the audio blob from the URL
-      const response = await fetch(recordedAudioUrl);
-      const audioBlob = await response.blob();
-
-      // Upload the audio file using the service
-      const fileInfo = await handleAudioFileUpload(audioBlob);
-      console.log('Audio uploaded successfully:', fileInfo);
-
-      // For audio answers, we only need to pass the object_name as the answer
-      // The folder is included in the task type
-      console.log('Audio file uploaded successfully, submitting object_name as answer:', fileInfo.object_name);
-      await submitAnswer(fileInfo.object_name);
-
-    } catch (err) {
-      console.error('Error submitting audio:', err);
-      setError('Failed to submit audio recording');
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
+  // Inputs are locked while submitting, and for good once a reviewed exam is read-only
+  const isLocked = isSubmitting || !!readOnly;
+  const canSubmit = !!taskType && !isLocked && taskType.isAnswerValid(answer, task);
+  const submitLabel = examMode ? 'Save Answer' : taskType?.submitLabel || 'Submit Answer';
 
-  // Generic submit answer function
-  const submitAnswer = async (answer: any) => {
+  // Serialize the current answer for its task type and submit it
+  const submitAnswer = async () => {
     // Get the task ID from either id or _id field
     const taskId = task.id || task._id;
 
-    if (!user || !taskId) {
-      console.error('Cannot submit answer: user or taskId is missing', {
+    if (!user || !taskId || !taskType || readOnly) {
+      console.error('Cannot submit answer: user, taskId or task type is missing', {
         user: !!user,
         taskId,
-        task_id: task.id,
-        task_id_underscore: task._id
+        type: task.type
       });
       return;
     }
 
+    if (!canSubmit) return;
+
+    const controller = new AbortController();
+    submitControllerRef.current = controller;
+
     try {
-      console.log(`Submitting answer for task ${taskId} (${task.type}):`, answer);
       setIsSubmitting(true);
       setError(null);
 
-      // For audio tasks, we need to include the folder in the request
-      let finalAnswer = answer;
-
-      // If this is a speak_word task and the answer is a string (object_name),
-      // we need to include the folder information
-      if (task.type === 'speak_word' && typeof answer === 'string') {
-        finalAnswer = {
-          object_name: answer,
-          folder: 'recordings'  // Default folder for audio recordings
-        };
-        console.log('Submitting audio answer with folder:', finalAnswer);
+      const finalAnswer = await taskType.serializeAnswer(answer, task, {
+        onProgress: setSubmitProgress,
+        signal: controller.signal
+      });
+      if (controller.signal.aborted) return;
+
+      console.log(`Submitting answer for task ${taskId} (${task.type}):`, finalAnswer);
+
+      // In exam mode the answer is only collected; the whole set is checked in one batch later
+      if (examMode) {
+        // Collected answers are kept in localStorage, which can't hold a recording
+        if (isPendingAudioAnswer(finalAnswer)) {
+          setError("You're offline. Recordings can be saved once you're back online.");
+          return;
+        }
+
+        onAnswerCollected?.(taskId, finalAnswer);
+        setAnswerSaved(true);
+
+        if (onNext) {
+          setTimeout(() => {
+            onNext();
+          }, 1000);
+        }
+        return;
       }
 
-      const result = await submitTaskAnswer(
-        taskId,
-        finalAnswer,
-        user,
-        task.type
-      );
+      // Offline answers wait in the outbox; TaskView records their results once they sync
+      const outcome = await submitOrQueueAnswer({ taskId, taskType: task.type, answer: finalAnswer, taskSetId });
+      if (outcome.status === 'queued') {
+        if (onNext) {
+          setTimeout(() => {
+            onNext();
+          }, 1000);
+        }
+        return;
+      }
 
+      const { result } = outcome;
       console.log('Submission result:', result);
       setSubmissionResult(result);
 
       // Notify parent component
       if (onAnswerSubmitted) {
-        onAnswerSubmitted(taskId, result.is_correct || false);
+        onAnswerSubmitted(taskId, result.is_correct || false, finalAnswer, result);
       }
 
       // Move to next task after a delay
@@ -204,323 +159,149 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onAnswerSubmitted, onNext, sc
       }
 
     } catch (err) {
+      if (isUploadCancelled(err)) {
+        console.log('Submission cancelled');
+        // Nothing to report once the learner has moved on
+        if (submitControllerRef.current === controller) setError('Upload cancelled.');
+        return;
+      }
       console.error('Error submitting answer:', err);
-      setError('Failed to submit answer');
+      const apiError = toApiError(err);
+      // Rejected recordings say what to do about it
+      setError(
+        apiError.code === UPLOAD_TOO_LARGE || apiError.code === UPLOAD_EMPTY
+          ? apiError.message
+          : 'Failed to submit answer'
+      );
     } finally {
-      setIsSubmitting(false);
+      if (submitControllerRef.current === controller) {
+        submitControllerRef.current = null;
+        setIsSubmitting(false);
+        setSubmitProgress(null);
+      }
     }
   };
 
-  // Render based on task type
-  const renderTaskContent = () => {
-    switch (task.type) {
-      case 'single_choice':
-      case 'multiple_choice':
-        return renderChoiceTask();
-      case 'image_identification':
-        return renderImageIdentificationTask();
-      case 'speak_word':
-        return renderSpeakWordTask();
-      case 'answer_in_word':
-        return renderAnswerInWordTask();
-      default:
-        return (
-          <div className="p-4 bg-yellow-100 rounded-lg">
-            <p>Unknown task type: {task.type}</p>
-          </div>
-        );
-    }
+  const cancelSubmission = () => {
+    submitControllerRef.current?.abort();
   };
 
-  // Render answer in word task (text input for Devanagari)
-  const renderAnswerInWordTask = () => {
-    return (
-      <div className="bg-white p-6 rounded-lg shadow-md">
-        <div className="flex items-center justify-between mb-2">
-          <h3 className="text-xl font-bold">{task.question || 'Type your answer:'}</h3>
-          <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded-full">
-            Answer in Word
-          </span>
-        </div>
-
-        {task.audio_hint_url && (
-          <div className="mb-4">
-            <h4 className="text-lg font-medium mb-2">Listen to the audio:</h4>
-            <audio controls className="w-full">
-              <source src={task.audio_hint_url} type="audio/mpeg" />
-              Your browser does not support the audio element.
-            </audio>
-          </div>
-        )}
-
-        <div className="mt-4">
-          <div className="mb-2 text-sm text-gray-600">
-            <p>Hint: Type in Devanagari script (नेपाली)</p>
-            <p className="mt-1 text-xs">You can use Google Input Tools or your system's Nepali keyboard</p>
-          </div>
-          <input
-            type="text"
-            className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-            placeholder="Type your answer here..."
-            value={textAnswer}
-            onChange={(e) => setTextAnswer(e.target.value)}
-            disabled={isSubmitting}
-          />
+  // Render the task through its registered type
+  const renderTaskContent = () => {
+    if (!isTaskTypeEnabled(task.type)) {
+      return (
+        <div className="p-4 bg-yellow-100 rounded-lg">
+          <p>This task type is not enabled for {displayName}.</p>
         </div>
+      );
+    }
 
-        <div className="mt-4 flex justify-center">
-          <button
-            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-purple-300"
-            onClick={async () => {
-              if (isSubmitting || !textAnswer.trim()) return;
-              await submitAnswer(textAnswer.trim());
-            }}
-            disabled={isSubmitting || !textAnswer.trim()}
-          >
-            {isSubmitting ? 'Submitting...' : 'Submit Answer'}
-          </button>
+    if (!taskType) {
+      return (
+        <div className="p-4 bg-yellow-100 rounded-lg">
+          <p>Unknown task type: {task.type}</p>
         </div>
+      );
+    }
 
-        {error && (
-          <div className="mt-4 p-3 bg-red-100 text-red-800 rounded-lg">
-            {error}
-          </div>
-        )}
-
-        {submissionResult && (
-          <div className={`mt-4 p-3 rounded-lg ${
-            submissionResult.is_correct
-              ? 'bg-green-100 text-green-800'
-              : 'bg-red-100 text-red-800'
-          }`}>
-            {submissionResult.is_correct
-              ? 'Correct!'
-              : `Incorrect. ${submissionResult.feedback || ''}`}
-          </div>
-        )}
-      </div>
-    );
-  };
-
-  // Render choice task (single or multiple)
-  const renderChoiceTask = () => {
-    const isMultiple = task.type === 'multiple_choice';
+    const { Renderer } = taskType;
+    const title = taskType.getTitle ? taskType.getTitle(task) : task.question;
 
     return (
       <div className="bg-white p-6 rounded-lg shadow-md">
         <div className="flex items-center justify-between mb-2">
-          <h3 className="text-xl font-bold">{task.question}</h3>
-          <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded-full">
-            {isMultiple ? 'Multiple Choice' : 'Single Choice'}
-          </span>
+          <h3 className="text-xl font-bold"><NepaliText text={title} /></h3>
+          <div className="flex items-center space-x-2">
+            {isPending && (
+              <span className="flex items-center text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
+                <CloudOff className="h-3 w-3 mr-1" />
+                Pending sync
+              </span>
+            )}
+            <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded-full">
+              {taskType.label}
+            </span>
+            {/* Not during an exam, where the task's words could give answers away */}
+            {!examMode && (
+              <button
+                className="p-1 rounded-full text-gray-500 hover:text-purple-700 hover:bg-purple-50"
+                onClick={() => setSaveWordOpen(true)}
+                title="Save a word to your vocabulary"
+                aria-label="Save a word to your vocabulary"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </button>
+            )}
+          </div>
         </div>
 
-        <div className="space-y-3">
-          {task.options?.map((option, index) => (
-            <button
-              key={index}
-              className={`w-full text-left p-3 border rounded-lg transition-colors ${
-                selectedOptions.includes(option)
-                  ? 'bg-purple-100 border-purple-500'
-                  : 'hover:bg-purple-50'
-              }`}
-              onClick={() => isMultiple
-                ? handleMultipleChoiceSelect(option)
-                : handleSingleChoiceSelect(option)
-              }
-              disabled={isSubmitting}
-            >
-              {option}
-            </button>
-          ))}
-        </div>
+        <SaveWordDialog
+          open={saveWordOpen}
+          onOpenChange={setSaveWordOpen}
+          candidates={vocabulary}
+          taskId={task.id || task._id}
+          taskSetId={taskSetId}
+        />
+
+        <Renderer
+          key={task.id || task._id}
+          task={task}
+          answer={answer}
+          onAnswerChange={setAnswer}
+          onSubmit={submitAnswer}
+          disabled={isLocked}
+          result={submissionResult}
+        />
 
         <div className="mt-4 flex justify-center">
           <button
             className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-purple-300"
-            onClick={isMultiple ? handleMultipleChoiceSubmit : handleSingleChoiceSubmit}
-            disabled={isSubmitting || selectedOptions.length === 0}
+            onClick={submitAnswer}
+            disabled={!canSubmit}
           >
-            {isSubmitting ? 'Submitting...' : 'Submit Answer'}
+            {isSubmitting ? 'Submitting...' : submitLabel}
           </button>
         </div>
 
-        {submissionResult && (
-          <div className={`mt-4 p-3 rounded-lg ${
-            submissionResult.is_correct
-              ? 'bg-green-100 text-green-800'
-              : 'bg-red-100 text-red-800'
-          }`}>
-            {submissionResult.is_correct
-              ? 'Correct!'
-              : `Incorrect. ${submissionResult.feedback || ''}`}
-          </div>
-        )}
-      </div>
-    );
-  };
-
-  // Render image identification task
-  const renderImageIdentificationTask = () => {
-    return (
-      <div className="bg-white p-6 rounded-lg shadow-md">
-        <div className="flex items-center justify-between mb-2">
-          <h3 className="text-xl font-bold">{task.question}</h3>
-          <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded-full">
-            Image Identification
-          </span>
-        </div>
-
-        {task.image_url && (
-          <div className="mb-6">
-            <img
-              src={task.image_url}
-              alt="Identification task"
-              className="max-w-full h-auto rounded-lg mx-auto border border-gray-200 shadow-sm"
-            />
-          </div>
-        )}
-
-        <div className="space-y-3">
-          {task.options?.map((option, index) => (
+        {submitProgress !== null && (
+          <div className="mt-4 flex items-center space-x-3">
+            <div className="flex-1 bg-gray-200 rounded-full h-2.5">
+              <div
+                className="bg-purple-600 h-2.5 rounded-full transition-all"
+                style={{ width: `${submitProgress}%` }}
+              ></div>
+            </div>
+            <span className="text-sm text-gray-600 w-10 text-right">{submitProgress}%</span>
             <button
-              key={index}
-              className={`w-full text-left p-3 border rounded-lg transition-colors ${
-                selectedOptions.includes(option)
-                  ? 'bg-purple-100 border-purple-500'
-                  : 'hover:bg-purple-50'
-              }`}
-              onClick={() => handleSingleChoiceSelect(option)}
-              disabled={isSubmitting}
+              className="text-sm text-gray-600 hover:text-red-600 underline"
+              onClick={cancelSubmission}
             >
-              {option}
+              Cancel
             </button>
-          ))}
-        </div>
-
-        <div className="mt-4 flex justify-center">
-          <button
-            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-purple-300"
-            onClick={handleSingleChoiceSubmit}
-            disabled={isSubmitting || selectedOptions.length === 0}
-          >
-            {isSubmitting ? 'Submitting...' : 'Submit Answer'}
-          </button>
-        </div>
-
-        {submissionResult && (
-          <div className={`mt-4 p-3 rounded-lg ${
-            submissionResult.is_correct
-              ? 'bg-green-100 text-green-800'
-              : 'bg-red-100 text-red-800'
-          }`}>
-            {submissionResult.is_correct
-              ? 'Correct!'
-              : `Incorrect. ${submissionResult.feedback || ''}`}
-          </div>
-        )}
-      </div>
-    );
-  };
-
-  // Render speak word task
-  const renderSpeakWordTask = () => {
-    return (
-      <div className="bg-white p-6 rounded-lg shadow-md">
-        <div className="flex items-center justify-between mb-2">
-          <h3 className="text-xl font-bold">Speak this word:</h3>
-          <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded-full">
-            Speak Word
-          </span>
-        </div>
-        <div className="text-3xl font-bold text-center p-6 mb-4 bg-purple-50 rounded-lg">
-          {task.word}
-        </div>
-
-        {task.audio_hint_url && (
-          <div className="mb-4">
-            <h4 className="text-lg font-medium mb-2">Listen to pronunciation:</h4>
-            <audio controls className="w-full">
-              <source src={task.audio_hint_url} type="audio/mpeg" />
-              Your browser does not support the audio element.
-            </audio>
           </div>
         )}
 
-        <div className="mt-6">
-          {!isRecording && !recordedAudioUrl && (
-            <button
-              className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors w-full"
-              onClick={startRecording}
-              disabled={isSubmitting}
-            >
-              Start Recording
-            </button>
-          )}
-
-          {isRecording && (
-            <button
-              className="bg-red-600 text-white px-6 py-3 rounded-lg hover:bg-red-700 transition-colors w-full"
-              onClick={stopRecording}
-            >
-              Stop Recording
-            </button>
-          )}
-
-          {recordedAudioUrl && (
-            <div className="space-y-4">
-              <audio ref={audioRef} controls className="w-full">
-                <source src={recordedAudioUrl} type="audio/webm" />
-                Your browser does not support the audio element.
-              </audio>
-
-              <div className="flex space-x-2 justify-center">
-                <button
-                  className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex-1"
-                  onClick={handleAudioSubmit}
-                  disabled={isSubmitting || isUploading}
-                >
-                  {isSubmitting || isUploading ? 'Submitting...' : 'Submit Recording'}
-                </button>
-
-                <button
-                  className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors"
-                  onClick={() => {
-                    startRecording();
-                  }}
-                  disabled={isSubmitting || isUploading}
-                >
-                  Record Again
-                </button>
-              </div>
-
-              {isUploading && (
-                <div className="w-full bg-gray-200 rounded-full h-2.5">
-                  <div
-                    className="bg-purple-600 h-2.5 rounded-full"
-                    style={{ width: `${uploadProgress}%` }}
-                  ></div>
-                </div>
-              )}
-            </div>
-          )}
-        </div>
-
         {error && (
           <div className="mt-4 p-3 bg-red-100 text-red-800 rounded-lg">
             {error}
           </div>
         )}
 
+        {isPending && !submissionResult && (
+          <div className="mt-4 p-3 rounded-lg bg-yellow-100 text-yellow-800">
+            {isOnline
+              ? 'Your answer is being submitted...'
+              : "You're offline. Your answer is saved on this device and will be submitted when you're back online."}
+          </div>
+        )}
+
         {submissionResult && (
-          <div className={`mt-4 p-3 rounded-lg ${
-            submissionResult.is_correct
-              ? 'bg-green-100 text-green-800'
-              : 'bg-red-100 text-red-800'
-          }`}>
-            {submissionResult.is_correct
-              ? 'Correct pronunciation!'
-              : `Needs improvement. ${submissionResult.feedback || ''}`}
+          <TaskResultBanner result={submissionResult} messages={taskType.resultMessages} />
+        )}
+
+        {answerSaved && (
+          <div className="mt-4 p-3 rounded-lg bg-blue-100 text-blue-800">
+            Answer saved. Results are shown after the exam is submitted.
           </div>
         )}
       </div>
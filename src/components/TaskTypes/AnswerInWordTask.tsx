@@ -0,0 +1,52 @@
+import React from 'react';
+import DevanagariInput from '@/components/DevanagariInput';
+import { TaskRendererProps, TaskTypeDefinition } from './types';
+
+/**
+ * Text input for answers typed in Devanagari
+ */
+const AnswerInWordRenderer: React.FC<TaskRendererProps<string>> = ({
+  task,
+  answer,
+  onAnswerChange,
+  onSubmit,
+  disabled
+}) => (
+  <>
+    {task.audio_hint_url && (
+      <div className="mb-4">
+        <h4 className="text-lg font-medium mb-2">Listen to the audio:</h4>
+        <audio controls className="w-full">
+          <source src={task.audio_hint_url} type="audio/mpeg" />
+          Your browser does not support the audio element.
+        </audio>
+      </div>
+    )}
+
+    <div className="mt-4">
+      <div className="mb-2 text-sm text-gray-600">
+        <p>Hint: Type in Devanagari script (नेपाली)</p>
+      </div>
+      <DevanagariInput
+        placeholder="Type your answer here..."
+        value={answer || ''}
+        onChange={onAnswerChange}
+        onEnter={onSubmit}
+        disabled={disabled}
+        aria-label="Your answer"
+      />
+    </div>
+  </>
+);
+
+const answerInWordTask: TaskTypeDefinition<string> = {
+  type: 'answer_in_word',
+  label: 'Answer in Word',
+  getTitle: (task) => task.question || 'Type your answer:',
+  Renderer: AnswerInWordRenderer,
+  isAnswerValid: (answer) => !!answer && answer.trim().length > 0,
+  serializeAnswer: (answer) => answer.trim(),
+  restoreAnswer: (savedAnswer) => (typeof savedAnswer === 'string' ? savedAnswer : undefined)
+};
+
+export default answerInWordTask;
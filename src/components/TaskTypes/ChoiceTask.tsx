@@ -0,0 +1,108 @@
+import React from 'react';
+import NepaliText from '@/components/NepaliText';
+import { TaskRendererProps, TaskTypeDefinition } from './types';
+
+/**
+ * Turn a saved single or multiple choice submission back into the selected options
+ */
+const restoreSelection = (savedAnswer: unknown): string[] | undefined => {
+  if (Array.isArray(savedAnswer)) return savedAnswer.map(String);
+  if (typeof savedAnswer === 'string') return [savedAnswer];
+  return undefined;
+};
+
+interface OptionListProps {
+  options: string[] | undefined;
+  selected: string[];
+  onSelect: (option: string) => void;
+  disabled: boolean;
+}
+
+const OptionList: React.FC<OptionListProps> = ({ options, selected, onSelect, disabled }) => (
+  <div className="space-y-3">
+    {options?.map((option, index) => (
+      <button
+        key={index}
+        className={`w-full text-left p-3 border rounded-lg transition-colors ${
+          selected.includes(option)
+            ? 'bg-purple-100 border-purple-500'
+            : 'hover:bg-purple-50'
+        }`}
+        onClick={() => onSelect(option)}
+        disabled={disabled}
+      >
+        <NepaliText text={option} />
+      </button>
+    ))}
+  </div>
+);
+
+const SingleChoiceRenderer: React.FC<TaskRendererProps<string[]>> = ({ task, answer, onAnswerChange, disabled }) => (
+  <OptionList
+    options={task.options}
+    selected={answer || []}
+    onSelect={(option) => onAnswerChange([option])}
+    disabled={disabled}
+  />
+);
+
+const MultipleChoiceRenderer: React.FC<TaskRendererProps<string[]>> = ({ task, answer, onAnswerChange, disabled }) => {
+  const selected = answer || [];
+
+  // Toggle an option in or out of the selection
+  const handleSelect = (option: string) => {
+    onAnswerChange(
+      selected.includes(option)
+        ? selected.filter(item => item !== option)
+        : [...selected, option]
+    );
+  };
+
+  return (
+    <OptionList options={task.options} selected={selected} onSelect={handleSelect} disabled={disabled} />
+  );
+};
+
+const ImageIdentificationRenderer: React.FC<TaskRendererProps<string[]>> = (props) => (
+  <>
+    {props.task.image_url && (
+      <div className="mb-6">
+        <img
+          src={props.task.image_url}
+          alt="Identification task"
+          className="max-w-full h-auto rounded-lg mx-auto border border-gray-200 shadow-sm"
+        />
+      </div>
+    )}
+    <SingleChoiceRenderer {...props} />
+  </>
+);
+
+const hasSelection = (answer: string[] | undefined) => !!answer && answer.length > 0;
+
+export const singleChoiceTask: TaskTypeDefinition<string[]> = {
+  type: 'single_choice',
+  label: 'Single Choice',
+  Renderer: SingleChoiceRenderer,
+  isAnswerValid: hasSelection,
+  serializeAnswer: (answer) => answer[0],
+  restoreAnswer: restoreSelection
+};
+
+export const multipleChoiceTask: TaskTypeDefinition<string[]> = {
+  type: 'multiple_choice',
+  label: 'Multiple Choice',
+  Renderer: MultipleChoiceRenderer,
+  isAnswerValid: hasSelection,
+  serializeAnswer: (answer) => answer,
+  restoreAnswer: restoreSelection
+};
+
+export const imageIdentificationTask: TaskTypeDefinition<string[]> = {
+  type: 'image_identification',
+  label: 'Image Identification',
+  Renderer: ImageIdentificationRenderer,
+  isAnswerValid: hasSelection,
+  serializeAnswer: (answer) => answer[0],
+  restoreAnswer: restoreSelection
+};
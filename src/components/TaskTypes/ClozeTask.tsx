@@ -0,0 +1,187 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { Task } from '@/api/taskService';
+import DevanagariInput from '@/components/DevanagariInput';
+import NepaliText from '@/components/NepaliText';
+import { useScript } from '@/context/ScriptContext';
+import { normalizeDevanagari } from '@/lib/devanagari';
+import { TaskRendererProps, TaskTypeDefinition } from './types';
+
+/**
+ * Answers of the gaps, in passage order
+ */
+type GapAnswers = string[];
+
+// Gaps are written as three or more underscores in the passage
+const GAP_PATTERN = /_{3,}/;
+
+const getPassageParts = (task: Task): string[] => (task.question || '').split(GAP_PATTERN);
+
+const getGapCount = (task: Task): number => Math.max(getPassageParts(task).length - 1, 0);
+
+/**
+ * Dropdown options of a gap: its own list if given, otherwise the shared options.
+ * Gaps without options take free Devanagari input.
+ */
+const getGapOptions = (task: Task, gap: number): string[] | undefined => {
+  const options = task.gap_options?.[gap] || task.options;
+  return options && options.length > 0 ? options : undefined;
+};
+
+/**
+ * Expected gap answers, from an ordered list or a single "|"-separated string
+ */
+const parseExpectedAnswers = (expected: unknown): string[] | undefined => {
+  if (Array.isArray(expected)) return expected.map(String);
+  if (typeof expected === 'string' && expected) return expected.split('|').map(answer => answer.trim());
+  return undefined;
+};
+
+/**
+ * Correctness of each gap, preferring the server's per-gap verdict when it sends one
+ */
+const getGapResults = (
+  task: Task,
+  answers: GapAnswers,
+  gapResults: unknown,
+  correctAnswer: unknown
+): boolean[] | undefined => {
+  if (Array.isArray(gapResults)) return gapResults.map(Boolean);
+
+  const expected = parseExpectedAnswers(correctAnswer ?? task.answer);
+  if (!expected) return undefined;
+
+  return answers.map((answer, gap) =>
+    expected[gap] !== undefined && normalizeDevanagari(answer || '').trim() === normalizeDevanagari(expected[gap]).trim()
+  );
+};
+
+/**
+ * A Nepali passage with gaps, each filled from a dropdown or by typing
+ */
+const ClozeRenderer: React.FC<TaskRendererProps<GapAnswers>> = ({
+  task,
+  answer,
+  onAnswerChange,
+  onSubmit,
+  disabled,
+  result
+}) => {
+  const { formatNepali } = useScript();
+  const parts = getPassageParts(task);
+  const gapCount = parts.length - 1;
+  const answers = answer || [];
+  const gapResults = result
+    ? getGapResults(task, answers, result.gap_results, result.correct_answer)
+    : undefined;
+  const expected = result ? parseExpectedAnswers(result.correct_answer ?? task.answer) : undefined;
+
+  const setGapAnswer = (gap: number, value: string) => {
+    const next = Array.from({ length: gapCount }, (_, index) => answers[index] || '');
+    next[gap] = value;
+    onAnswerChange(next);
+  };
+
+  const gapClassName = (gap: number) => {
+    if (!gapResults) return 'border-purple-300 focus:ring-purple-500';
+    return gapResults[gap] ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50';
+  };
+
+  const renderGap = (gap: number) => {
+    const options = getGapOptions(task, gap);
+
+    return (
+      <span className="inline-flex items-center mx-1 align-middle">
+        {options ? (
+          <select
+            className={`p-1 border-2 rounded-lg text-lg focus:outline-none focus:ring-2 ${gapClassName(gap)}`}
+            value={answers[gap] || ''}
+            onChange={(e) => setGapAnswer(gap, e.target.value)}
+            disabled={disabled}
+            aria-label={`Gap ${gap + 1}`}
+          >
+            <option value="" disabled>
+              Choose…
+            </option>
+            {options.map(option => (
+              <option key={option} value={option}>
+                {formatNepali(option)}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <DevanagariInput
+            className={`w-32 p-1 border-2 ${gapClassName(gap)}`}
+            value={answers[gap] || ''}
+            onChange={(value) => setGapAnswer(gap, value)}
+            onEnter={onSubmit}
+            disabled={disabled}
+            showToolbar={false}
+            aria-label={`Gap ${gap + 1}`}
+          />
+        )}
+        {gapResults && (
+          gapResults[gap]
+            ? <Check className="h-4 w-4 ml-1 text-green-600" aria-label="Correct" />
+            : <X className="h-4 w-4 ml-1 text-red-600" aria-label="Incorrect" />
+        )}
+      </span>
+    );
+  };
+
+  if (gapCount === 0) {
+    return (
+      <div className="p-4 bg-yellow-100 rounded-lg">
+        <p>This task has no gaps to fill.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {task.audio_hint_url && (
+        <div className="mb-4">
+          <audio controls className="w-full">
+            <source src={task.audio_hint_url} type="audio/mpeg" />
+            Your browser does not support the audio element.
+          </audio>
+        </div>
+      )}
+
+      <div className="text-xl leading-loose" lang="ne">
+        {parts.map((part, index) => (
+          <React.Fragment key={index}>
+            <NepaliText text={part} />
+            {index < gapCount && renderGap(index)}
+          </React.Fragment>
+        ))}
+      </div>
+
+      {gapResults && expected && gapResults.some(correct => !correct) && (
+        <ul className="mt-4 text-sm text-gray-700 space-y-1">
+          {gapResults.map((correct, gap) => !correct && expected[gap] !== undefined && (
+            <li key={gap}>
+              Gap {gap + 1}: <NepaliText className="font-medium" text={expected[gap]} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+};
+
+const clozeTask: TaskTypeDefinition<GapAnswers> = {
+  type: 'cloze',
+  label: 'Fill in the Blanks',
+  getTitle: () => 'Fill in the blanks:',
+  Renderer: ClozeRenderer,
+  isAnswerValid: (answer, task) => {
+    const gapCount = getGapCount(task);
+    return gapCount > 0 && !!answer && answer.length === gapCount && answer.every(gap => gap.trim().length > 0);
+  },
+  // Sent as an ordered list with one answer per gap
+  serializeAnswer: (answer) => answer.map(gap => gap.trim().normalize('NFC')),
+  restoreAnswer: (savedAnswer) => (Array.isArray(savedAnswer) ? savedAnswer.map(String) : undefined)
+};
+
+export default clozeTask;
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, RotateCcw } from 'lucide-react';
+import DevanagariInput from '@/components/DevanagariInput';
+import NepaliText from '@/components/NepaliText';
+import { diffWords, WordDiffPart } from '@/lib/wordDiff';
+import { TaskRendererProps, TaskTypeDefinition } from './types';
+
+// Playback speeds offered for the prompt; slower speeds keep the pitch
+const PLAYBACK_RATES = [1, 0.75, 0.5];
+
+interface PromptPlayerProps {
+  src: string;
+}
+
+/**
+ * Play, replay and slow down the dictation prompt
+ */
+const PromptPlayer: React.FC<PromptPlayerProps> = ({ src }) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = playbackRate;
+    }
+  }, [playbackRate]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((error) => console.error('Error playing dictation prompt:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const replay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = 0;
+    audio.play().catch((error) => console.error('Error replaying dictation prompt:', error));
+  };
+
+  return (
+    <div className="flex items-center space-x-3 p-3 bg-purple-50 rounded-lg">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="auto"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+      />
+
+      <button
+        className="bg-purple-600 text-white p-3 rounded-full hover:bg-purple-700 transition-colors"
+        onClick={togglePlay}
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+      </button>
+
+      <button
+        className="bg-gray-200 text-gray-800 p-3 rounded-full hover:bg-gray-300 transition-colors"
+        onClick={replay}
+        aria-label="Replay from the start"
+      >
+        <RotateCcw className="h-5 w-5" />
+      </button>
+
+      <div className="flex items-center space-x-1 ml-auto" role="group" aria-label="Playback speed">
+        {PLAYBACK_RATES.map(rate => (
+          <button
+            key={rate}
+            className={`px-2 py-1 text-sm rounded-lg transition-colors ${
+              playbackRate === rate ? 'bg-purple-600 text-white' : 'bg-white border hover:bg-purple-100'
+            }`}
+            onClick={() => setPlaybackRate(rate)}
+            aria-pressed={playbackRate === rate}
+          >
+            {rate}×
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const DIFF_STYLES: Record<WordDiffPart['type'], string> = {
+  match: 'bg-green-100 text-green-800',
+  missing: 'bg-orange-100 text-orange-800 underline decoration-dotted',
+  extra: 'bg-red-100 text-red-800 line-through'
+};
+
+/**
+ * Listen to a sentence and type it in Devanagari. Once checked, the typed
+ * sentence is compared word by word with the expected one.
+ */
+const DictationRenderer: React.FC<TaskRendererProps<string>> = ({
+  task,
+  answer,
+  onAnswerChange,
+  onSubmit,
+  disabled,
+  result
+}) => {
+  const expected = result?.correct_answer || task.answer;
+  const diff = result && expected && answer ? diffWords(expected, answer) : null;
+
+  return (
+    <>
+      {task.audio_hint_url ? (
+        <div className="mb-4">
+          <PromptPlayer src={task.audio_hint_url} />
+        </div>
+      ) : (
+        <div className="mb-4 p-3 bg-yellow-100 rounded-lg text-sm">
+          The audio for this task is missing.
+        </div>
+      )}
+
+      <div className="mb-2 text-sm text-gray-600">
+        <p>Type what you hear in Devanagari script (नेपाली)</p>
+      </div>
+      <DevanagariInput
+        multiline
+        rows={2}
+        placeholder="Type the sentence here..."
+        value={answer || ''}
+        onChange={onAnswerChange}
+        onEnter={onSubmit}
+        disabled={disabled}
+        aria-label="Your sentence"
+      />
+
+      {diff && (
+        <div className="mt-4 p-3 border rounded-lg">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Word by word</h4>
+          <div className="flex flex-wrap gap-1 text-lg">
+            {diff.map((part, index) => (
+              <span key={index} className={`px-1 rounded ${DIFF_STYLES[part.type]}`}>
+                <NepaliText text={part.word} />
+              </span>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            <span className="text-green-700">Green</span>: correct,{' '}
+            <span className="text-orange-700">orange</span>: missed,{' '}
+            <span className="text-red-700">red</span>: not in the sentence
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
+
+const dictationTask: TaskTypeDefinition<string> = {
+  type: 'dictation',
+  label: 'Dictation',
+  getTitle: (task) => task.question || 'Write what you hear:',
+  Renderer: DictationRenderer,
+  isAnswerValid: (answer) => !!answer && answer.trim().length > 0,
+  serializeAnswer: (answer) => answer.trim().normalize('NFC'),
+  restoreAnswer: (savedAnswer) => (typeof savedAnswer === 'string' ? savedAnswer : undefined)
+};
+
+export default dictationTask;
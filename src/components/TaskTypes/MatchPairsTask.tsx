@@ -0,0 +1,297 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { MatchPair, Task } from '@/api/taskService';
+import NepaliText from '@/components/NepaliText';
+import { TaskRendererProps, TaskTypeDefinition } from './types';
+import { shuffle } from './utils';
+
+/**
+ * Connected pairs, mapping the position of a Nepali word in `task.pairs`
+ * to the position of the meaning chosen for it
+ */
+type PairMapping = Record<number, number>;
+
+/**
+ * One submitted pair; `right` is the English meaning or the picture URL
+ */
+interface SubmittedPair {
+  left: string;
+  right: string;
+}
+
+// Each connected pair gets its own colour so both sides can be matched up at a glance
+const PAIR_COLORS = [
+  'bg-purple-100 border-purple-500',
+  'bg-blue-100 border-blue-500',
+  'bg-green-100 border-green-500',
+  'bg-orange-100 border-orange-500',
+  'bg-pink-100 border-pink-500',
+  'bg-teal-100 border-teal-500'
+];
+
+const getPairs = (task: Task): MatchPair[] => task.pairs || [];
+
+const getRightValue = (pair: MatchPair): string => pair.english || pair.image_url || '';
+
+type Column = 'left' | 'right';
+
+/**
+ * Connect Nepali words to their meanings by tapping one item in each column,
+ * dragging a word onto a meaning, or with the keyboard (arrows to move,
+ * Enter/Space to select, Delete to undo a pair, Escape to cancel).
+ */
+const MatchPairsRenderer: React.FC<TaskRendererProps<PairMapping>> = ({
+  task,
+  answer,
+  onAnswerChange,
+  disabled,
+  result
+}) => {
+  const pairs = getPairs(task);
+  const mapping = answer || {};
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Meanings are shown in a random order, fixed for as long as the task is shown
+  const rightOrder = useMemo(() => shuffle(pairs.map((_, index) => index)), [pairs]);
+
+  const [selectedLeft, setSelectedLeft] = useState<number | null>(null);
+  const [selectedRight, setSelectedRight] = useState<number | null>(null);
+
+  const leftForRight = (right: number): number | undefined => {
+    const left = Object.keys(mapping).find(key => mapping[Number(key)] === right);
+    return left === undefined ? undefined : Number(left);
+  };
+
+  const connect = (left: number, right: number) => {
+    const next: PairMapping = {};
+    // A meaning can only belong to one word
+    Object.entries(mapping).forEach(([key, value]) => {
+      if (value !== right) next[Number(key)] = value;
+    });
+    next[left] = right;
+
+    onAnswerChange(next);
+    setSelectedLeft(null);
+    setSelectedRight(null);
+  };
+
+  const disconnect = (left: number | undefined) => {
+    if (left === undefined || mapping[left] === undefined) return;
+    const next = { ...mapping };
+    delete next[left];
+    onAnswerChange(next);
+  };
+
+  const handleLeftSelect = (left: number) => {
+    if (disabled) return;
+    if (selectedRight !== null) {
+      connect(left, selectedRight);
+    } else {
+      setSelectedLeft(selectedLeft === left ? null : left);
+    }
+  };
+
+  const handleRightSelect = (right: number) => {
+    if (disabled) return;
+    if (selectedLeft !== null) {
+      connect(selectedLeft, right);
+    } else {
+      setSelectedRight(selectedRight === right ? null : right);
+    }
+  };
+
+  const focusItem = (column: Column, position: number) => {
+    const clamped = Math.max(0, Math.min(position, pairs.length - 1));
+    containerRef.current
+      ?.querySelector<HTMLButtonElement>(`[data-column="${column}"][data-position="${clamped}"]`)
+      ?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, column: Column, position: number, left: number | undefined) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        focusItem(column, position + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        focusItem(column, position - 1);
+        break;
+      case 'ArrowRight':
+      case 'ArrowLeft':
+        e.preventDefault();
+        focusItem(column === 'left' ? 'right' : 'left', position);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault();
+        if (!disabled) disconnect(left);
+        break;
+      case 'Escape':
+        setSelectedLeft(null);
+        setSelectedRight(null);
+        break;
+    }
+  };
+
+  // Pair colour of a word, or the selection highlight
+  const itemClassName = (left: number | undefined, isSelected: boolean) => {
+    if (isSelected) return 'bg-purple-50 border-purple-700 ring-2 ring-purple-400';
+    if (left !== undefined) return PAIR_COLORS[left % PAIR_COLORS.length];
+    return 'hover:bg-purple-50';
+  };
+
+  const correctCount = Object.entries(mapping).filter(([left, right]) => Number(left) === right).length;
+
+  if (pairs.length === 0) {
+    return (
+      <div className="p-4 bg-yellow-100 rounded-lg">
+        <p>This task has no pairs to match.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef}>
+      <p className="text-sm text-gray-600 mb-3">
+        Tap a word and then its meaning, or drag a word onto its meaning.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-3">
+          {pairs.map((pair, left) => {
+            const isConnected = mapping[left] !== undefined;
+            const isCorrect = mapping[left] === left;
+
+            return (
+              <button
+                key={left}
+                data-column="left"
+                data-position={left}
+                className={`w-full p-3 border rounded-lg text-left text-xl transition-colors flex items-center justify-between ${
+                  itemClassName(isConnected ? left : undefined, selectedLeft === left)
+                }`}
+                onClick={() => handleLeftSelect(left)}
+                onKeyDown={(e) => handleKeyDown(e, 'left', left, left)}
+                draggable={!disabled}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData('text/plain', String(left));
+                  e.dataTransfer.effectAllowed = 'link';
+                }}
+                aria-pressed={selectedLeft === left}
+                disabled={disabled && !result}
+              >
+                <NepaliText text={pair.nepali} />
+                {result && isConnected && (
+                  isCorrect
+                    ? <Check className="h-5 w-5 text-green-600" aria-label="Correct pair" />
+                    : <X className="h-5 w-5 text-red-600" aria-label="Incorrect pair" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3">
+          {rightOrder.map((right, position) => {
+            const pair = pairs[right];
+            const left = leftForRight(right);
+
+            return (
+              <button
+                key={right}
+                data-column="right"
+                data-position={position}
+                className={`w-full p-3 border rounded-lg text-left transition-colors ${
+                  itemClassName(left, selectedRight === right)
+                }`}
+                onClick={() => handleRightSelect(right)}
+                onKeyDown={(e) => handleKeyDown(e, 'right', position, left)}
+                onDragOver={(e) => {
+                  if (!disabled) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  const data = e.dataTransfer.getData('text/plain');
+                  const dragged = Number(data);
+                  if (!disabled && data !== '' && pairs[dragged]) connect(dragged, right);
+                }}
+                aria-pressed={selectedRight === right}
+                disabled={disabled && !result}
+              >
+                {pair.image_url ? (
+                  <img
+                    src={pair.image_url}
+                    alt={pair.english || 'Picture to match'}
+                    className="h-16 w-auto mx-auto rounded"
+                  />
+                ) : (
+                  pair.english
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {result && (
+        <p className="mt-4 text-sm text-gray-700">
+          You matched {correctCount} of {pairs.length} pairs correctly.
+        </p>
+      )}
+
+      {!result && Object.keys(mapping).length > 0 && (
+        <div className="mt-3 flex justify-end">
+          <button
+            className="text-sm text-gray-500 hover:text-gray-700"
+            onClick={() => onAnswerChange({})}
+            disabled={disabled}
+          >
+            Reset pairs
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const matchPairsTask: TaskTypeDefinition<PairMapping> = {
+  type: 'match_pairs',
+  label: 'Match Pairs',
+  getTitle: (task) => task.question || 'Match the pairs:',
+  Renderer: MatchPairsRenderer,
+  // Every word needs a meaning before the answer can be submitted
+  isAnswerValid: (answer, task) => {
+    const pairs = getPairs(task);
+    return pairs.length > 0 && !!answer && Object.keys(answer).length === pairs.length;
+  },
+  // Sent as a list of pair mappings; the server scores each correct pair
+  serializeAnswer: (answer, task): SubmittedPair[] => {
+    const pairs = getPairs(task);
+    return Object.entries(answer).map(([left, right]) => ({
+      left: pairs[Number(left)].nepali,
+      right: getRightValue(pairs[right])
+    }));
+  },
+  restoreAnswer: (savedAnswer, task) => {
+    if (!Array.isArray(savedAnswer)) return undefined;
+
+    const pairs = getPairs(task);
+    const mapping: PairMapping = {};
+    (savedAnswer as SubmittedPair[]).forEach(({ left, right }) => {
+      const leftIndex = pairs.findIndex(pair => pair.nepali === left);
+      const rightIndex = pairs.findIndex(pair => getRightValue(pair) === right);
+      if (leftIndex >= 0 && rightIndex >= 0) {
+        mapping[leftIndex] = rightIndex;
+      }
+    });
+    return mapping;
+  },
+  // Meanings are the pairings to find, so they're only filled in once checked
+  getVocabulary: (task, revealAnswer) => getPairs(task).map(pair => ({
+    word: pair.nepali,
+    meaning: revealAnswer ? pair.english : undefined
+  }))
+};
+
+export default matchPairsTask;
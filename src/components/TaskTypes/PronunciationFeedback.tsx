@@ -0,0 +1,297 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import WaveSurfer from 'wavesurfer.js';
+import { Play, Pause } from 'lucide-react';
+import { SyllableAlignment } from '@/api/taskService';
+import NepaliText from '@/components/NepaliText';
+import {
+  analyzeAudio,
+  comparePronunciation,
+  decodeAudio,
+  getRelativePitchCurve,
+  PronunciationComparison
+} from '@/lib/audioAnalysis';
+
+// Syllables scoring at least this well count as correct when the server sends no verdict
+const SYLLABLE_PASS_SCORE = 0.6;
+
+const isSyllableCorrect = (syllable: SyllableAlignment) =>
+  syllable.is_correct ?? (syllable.score === undefined || syllable.score >= SYLLABLE_PASS_SCORE);
+
+interface WaveformSegment {
+  start: number;
+  end: number;
+  correct: boolean;
+}
+
+interface WaveformHandle {
+  playSegment: (start: number, end: number) => void;
+}
+
+interface WaveformProps {
+  url: string;
+  label: string;
+  color: string;
+  segments?: WaveformSegment[];
+}
+
+/**
+ * Waveform of one recording with play/pause, optionally shaded per syllable
+ */
+const Waveform = forwardRef<WaveformHandle, WaveformProps>(({ url, label, color, segments }, ref) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const waveSurferRef = useRef<WaveSurfer | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const waveSurfer = WaveSurfer.create({
+      container: containerRef.current,
+      height: 64,
+      waveColor: color,
+      progressColor: '#6b21a8',
+      cursorColor: '#6b21a8',
+      barWidth: 2,
+      barGap: 1,
+      responsive: true,
+      normalize: true
+    });
+    waveSurferRef.current = waveSurfer;
+    setError(false);
+
+    waveSurfer.on('ready', () => setDuration(waveSurfer.getDuration()));
+    waveSurfer.on('play', () => setIsPlaying(true));
+    waveSurfer.on('pause', () => setIsPlaying(false));
+    waveSurfer.on('finish', () => setIsPlaying(false));
+    waveSurfer.on('error', (err) => {
+      console.error(`Failed to load waveform for ${label}:`, err);
+      setError(true);
+    });
+    waveSurfer.load(url);
+
+    return () => {
+      waveSurfer.destroy();
+      waveSurferRef.current = null;
+    };
+  }, [url, color, label]);
+
+  useImperativeHandle(ref, () => ({
+    playSegment: (start, end) => waveSurferRef.current?.play(start, end)
+  }), []);
+
+  const togglePlay = () => {
+    const waveSurfer = waveSurferRef.current;
+    if (!waveSurfer) return;
+    if (waveSurfer.isPlaying()) {
+      waveSurfer.pause();
+    } else {
+      waveSurfer.play();
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1 text-sm">
+        <span className="font-medium">{label}</span>
+        {duration > 0 && <span className="text-gray-500">{duration.toFixed(1)}s</span>}
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          className="bg-purple-600 text-white p-2 rounded-full hover:bg-purple-700 transition-colors disabled:bg-purple-300"
+          onClick={togglePlay}
+          disabled={error}
+          aria-label={isPlaying ? `Pause ${label}` : `Play ${label}`}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </button>
+        <div className="relative flex-1 bg-gray-50 rounded">
+          <div ref={containerRef} />
+          {/* Syllable bands over the waveform */}
+          {duration > 0 && segments?.map((segment, index) => (
+            <div
+              key={index}
+              className={`absolute top-0 bottom-0 pointer-events-none border-x ${
+                segment.correct ? 'bg-green-400/20 border-green-500/40' : 'bg-red-400/25 border-red-500/50'
+              }`}
+              style={{
+                left: `${(segment.start / duration) * 100}%`,
+                width: `${((segment.end - segment.start) / duration) * 100}%`
+              }}
+            />
+          ))}
+          {error && <p className="p-2 text-xs text-gray-500">The waveform could not be loaded.</p>}
+        </div>
+      </div>
+    </div>
+  );
+});
+Waveform.displayName = 'Waveform';
+
+interface PitchChartProps {
+  reference: number[];
+  recording: number[];
+}
+
+/**
+ * Both intonation curves on one chart, in semitones around each speaker's own median
+ */
+const PitchChart: React.FC<PitchChartProps> = ({ reference, recording }) => {
+  const width = 300;
+  const height = 80;
+  const range = Math.max(6, ...reference.map(Math.abs), ...recording.map(Math.abs));
+
+  const toPoints = (curve: number[]) =>
+    curve
+      .map((value, index) => {
+        const x = (index / Math.max(curve.length - 1, 1)) * width;
+        const y = height / 2 - (value / range) * (height / 2);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-20 bg-gray-50 rounded" role="img" aria-label="Pitch contours">
+      <line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="#e5e7eb" />
+      <polyline points={toPoints(reference)} fill="none" stroke="#9333ea" strokeWidth={2} />
+      <polyline points={toPoints(recording)} fill="none" stroke="#f97316" strokeWidth={2} strokeDasharray="4 2" />
+    </svg>
+  );
+};
+
+const describePace = (ratio: number): string => {
+  if (ratio < 0.75) return 'You spoke faster than the reference.';
+  if (ratio > 1.33) return 'You spoke more slowly than the reference.';
+  return 'Your pace matches the reference.';
+};
+
+const describeIntonation = (similarity: number | null): string => {
+  if (similarity === null) return 'There was not enough voiced sound to compare intonation.';
+  if (similarity >= 0.7) return 'Your intonation follows the reference closely.';
+  if (similarity >= 0.3) return 'Your intonation partly follows the reference.';
+  return 'Your intonation differs from the reference. Listen again and copy its rise and fall.';
+};
+
+interface PronunciationFeedbackProps {
+  referenceUrl?: string;
+  recordingUrl: string;
+  alignment?: SyllableAlignment[];
+}
+
+/**
+ * Feedback on a speak_word recording: both waveforms side by side, a duration
+ * and pitch comparison computed in the browser, and per-syllable verdicts when
+ * the server aligned the recording.
+ */
+const PronunciationFeedback: React.FC<PronunciationFeedbackProps> = ({ referenceUrl, recordingUrl, alignment }) => {
+  const recordingRef = useRef<WaveformHandle | null>(null);
+  const [comparison, setComparison] = useState<PronunciationComparison | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+
+  // Decode and compare both recordings
+  useEffect(() => {
+    if (!referenceUrl) return;
+
+    let cancelled = false;
+    setIsAnalyzing(true);
+    setAnalysisError(null);
+    setComparison(null);
+
+    Promise.all([decodeAudio(referenceUrl), decodeAudio(recordingUrl)])
+      .then(([reference, recording]) => {
+        if (cancelled) return;
+        setComparison(comparePronunciation(analyzeAudio(reference), analyzeAudio(recording)));
+      })
+      .catch((err) => {
+        console.error('Failed to analyze pronunciation:', err);
+        if (!cancelled) setAnalysisError('The recordings could not be compared.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsAnalyzing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [referenceUrl, recordingUrl]);
+
+  const syllables = alignment || [];
+  const segments = syllables
+    .filter(syllable => syllable.start !== undefined && syllable.end !== undefined)
+    .map(syllable => ({ start: syllable.start, end: syllable.end, correct: isSyllableCorrect(syllable) }));
+
+  return (
+    <div className="mt-4 p-4 border rounded-lg space-y-4">
+      <h4 className="font-medium">Pronunciation feedback</h4>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {referenceUrl && <Waveform url={referenceUrl} label="Reference" color="#c084fc" />}
+        <Waveform ref={recordingRef} url={recordingUrl} label="Your recording" color="#fdba74" segments={segments} />
+      </div>
+
+      {syllables.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 mb-2">Syllables</h5>
+          <div className="flex flex-wrap gap-2">
+            {syllables.map((syllable, index) => {
+              const correct = isSyllableCorrect(syllable);
+              const canPlay = syllable.start !== undefined && syllable.end !== undefined;
+              return (
+                <button
+                  key={index}
+                  className={`px-3 py-1 rounded-lg text-lg border ${
+                    correct ? 'bg-green-50 border-green-400 text-green-800' : 'bg-red-50 border-red-400 text-red-800'
+                  } ${canPlay ? 'hover:shadow' : 'cursor-default'}`}
+                  onClick={() => canPlay && recordingRef.current?.playSegment(syllable.start, syllable.end)}
+                  title={canPlay ? 'Play this syllable of your recording' : undefined}
+                >
+                  <NepaliText text={syllable.syllable} />
+                  {syllable.score !== undefined && (
+                    <span className="ml-1 text-xs">{Math.round(syllable.score * 100)}%</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {isAnalyzing && (
+        <div className="flex items-center text-sm text-gray-500">
+          <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-purple-500 mr-2"></div>
+          Comparing with the reference...
+        </div>
+      )}
+      {analysisError && <p className="text-sm text-gray-500">{analysisError}</p>}
+
+      {comparison && (
+        <div className="grid gap-4 md:grid-cols-2 text-sm">
+          <div>
+            <h5 className="font-medium text-gray-700 mb-1">Duration</h5>
+            <p>
+              Reference {comparison.reference.speechDuration.toFixed(1)}s, yours{' '}
+              {comparison.recording.speechDuration.toFixed(1)}s
+            </p>
+            <p className="text-gray-600">{describePace(comparison.durationRatio)}</p>
+          </div>
+          <div>
+            <h5 className="font-medium text-gray-700 mb-1">Pitch</h5>
+            <PitchChart
+              reference={getRelativePitchCurve(comparison.reference)}
+              recording={getRelativePitchCurve(comparison.recording)}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              <span className="text-purple-700">Purple</span>: reference,{' '}
+              <span className="text-orange-600">orange</span>: you
+            </p>
+            <p className="text-gray-600">{describeIntonation(comparison.pitchSimilarity)}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationFeedback;
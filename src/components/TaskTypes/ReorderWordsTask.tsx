@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { Task } from '@/api/taskService';
+import NepaliText from '@/components/NepaliText';
+import { TaskRendererProps, TaskTypeDefinition } from './types';
+import { shuffle } from './utils';
+
+/**
+ * Placed tiles in sentence order, as positions in `task.options`
+ * (positions rather than words, so repeated words stay distinct)
+ */
+type TileOrder = number[];
+
+const getTiles = (task: Task): string[] => task.options || [];
+
+// Where a dragged tile comes from
+interface DragSource {
+  tile: number;
+  fromSentence: boolean;
+}
+
+/**
+ * Arrange shuffled word tiles into a sentence. Tap a tile to place it at the
+ * end of the sentence or to send it back; drag tiles to insert or reorder them.
+ */
+const ReorderWordsRenderer: React.FC<TaskRendererProps<TileOrder>> = ({
+  task,
+  answer,
+  onAnswerChange,
+  disabled
+}) => {
+  const tiles = getTiles(task);
+  const placed = answer || [];
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+
+  // Tiles start in a random order, fixed for as long as the task is shown
+  const bankOrder = useMemo(() => shuffle(tiles.map((_, index) => index)), [tiles]);
+  const bank = bankOrder.filter(tile => !placed.includes(tile));
+
+  const placeTile = (tile: number, position: number = placed.length) => {
+    const withoutTile = placed.filter(item => item !== tile);
+    const insertAt = Math.min(position, withoutTile.length);
+    onAnswerChange([...withoutTile.slice(0, insertAt), tile, ...withoutTile.slice(insertAt)]);
+  };
+
+  const removeTile = (tile: number) => {
+    onAnswerChange(placed.filter(item => item !== tile));
+  };
+
+  // Dropping onto a placed tile inserts before it; dropping onto the sentence area appends
+  const handleDropOnSentence = (e: React.DragEvent, position: number = placed.length) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (disabled || !dragSource) return;
+
+    // Moving a tile further right shifts the target left once the tile is taken out
+    const currentIndex = placed.indexOf(dragSource.tile);
+    const target = dragSource.fromSentence && currentIndex >= 0 && currentIndex < position ? position - 1 : position;
+    placeTile(dragSource.tile, target);
+    setDragSource(null);
+  };
+
+  const handleDropOnBank = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (disabled || !dragSource) return;
+    if (dragSource.fromSentence) {
+      removeTile(dragSource.tile);
+    }
+    setDragSource(null);
+  };
+
+  const tileProps = (tile: number, fromSentence: boolean) => ({
+    draggable: !disabled,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData('text/plain', tiles[tile]);
+      e.dataTransfer.effectAllowed = 'move';
+      setDragSource({ tile, fromSentence });
+    },
+    onDragEnd: () => setDragSource(null),
+    disabled
+  });
+
+  return (
+    <>
+      {task.audio_hint_url && (
+        <div className="mb-4">
+          <h4 className="text-lg font-medium mb-2">Listen to the sentence:</h4>
+          <audio controls className="w-full">
+            <source src={task.audio_hint_url} type="audio/mpeg" />
+            Your browser does not support the audio element.
+          </audio>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600 mb-2">
+        Tap the words in the right order, or drag them into place.
+      </p>
+
+      {/* Sentence being built */}
+      <div
+        className="min-h-[4rem] p-3 mb-4 border-2 border-dashed border-purple-300 rounded-lg flex flex-wrap gap-2 items-center bg-purple-50"
+        onDragOver={(e) => {
+          if (!disabled) e.preventDefault();
+        }}
+        onDrop={(e) => handleDropOnSentence(e)}
+      >
+        {placed.length === 0 && (
+          <span className="text-gray-400 text-sm">Your sentence appears here</span>
+        )}
+        {placed.map((tile, position) => (
+          <button
+            key={tile}
+            className="px-3 py-2 text-lg bg-white border border-purple-500 rounded-lg shadow-sm hover:bg-purple-100 transition-colors"
+            onClick={() => removeTile(tile)}
+            onDragOver={(e) => {
+              if (!disabled) e.preventDefault();
+            }}
+            onDrop={(e) => handleDropOnSentence(e, position)}
+            aria-label={`${tiles[tile]}, position ${position + 1}. Tap to remove`}
+            {...tileProps(tile, true)}
+          >
+            <NepaliText text={tiles[tile]} />
+          </button>
+        ))}
+      </div>
+
+      {/* Remaining tiles */}
+      <div
+        className="min-h-[3.5rem] flex flex-wrap gap-2"
+        onDragOver={(e) => {
+          if (!disabled) e.preventDefault();
+        }}
+        onDrop={handleDropOnBank}
+      >
+        {bank.map(tile => (
+          <button
+            key={tile}
+            className="px-3 py-2 text-lg bg-white border rounded-lg shadow-sm hover:bg-purple-50 transition-colors"
+            onClick={() => placeTile(tile)}
+            aria-label={`${tiles[tile]}. Tap to add to the sentence`}
+            {...tileProps(tile, false)}
+          >
+            <NepaliText text={tiles[tile]} />
+          </button>
+        ))}
+      </div>
+    </>
+  );
+};
+
+const reorderWordsTask: TaskTypeDefinition<TileOrder> = {
+  type: 'reorder_words',
+  label: 'Reorder Words',
+  getTitle: (task) => task.question || 'Put the words in the right order:',
+  Renderer: ReorderWordsRenderer,
+  // All tiles have to be used
+  isAnswerValid: (answer, task) => {
+    const tiles = getTiles(task);
+    return tiles.length > 0 && !!answer && answer.length === tiles.length;
+  },
+  // Sent as the words in sentence order
+  serializeAnswer: (answer, task): string[] => {
+    const tiles = getTiles(task);
+    return answer.map(tile => tiles[tile]);
+  },
+  restoreAnswer: (savedAnswer, task) => {
+    if (!Array.isArray(savedAnswer)) return undefined;
+
+    // Match each saved word to an unused tile with the same text
+    const tiles = getTiles(task);
+    const order: TileOrder = [];
+    savedAnswer.forEach(word => {
+      const tile = tiles.findIndex((text, index) => text === word && !order.includes(index));
+      if (tile >= 0) order.push(tile);
+    });
+    return order;
+  }
+};
+
+export default reorderWordsTask;
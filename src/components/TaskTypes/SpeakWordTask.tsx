@@ -0,0 +1,151 @@
+import React, { useEffect } from 'react';
+import NepaliText from '@/components/NepaliText';
+import { FileUploadResponse, uploadAudioFile, validateAudioUpload } from '@/api/fileService';
+import { isNetworkError } from '@/api/httpBase';
+import { PendingAudioAnswer } from '@/api/answerOutbox';
+import { useRecorder } from '@/hooks/useAudioRecorder';
+import { TaskRendererProps, TaskTypeDefinition } from './types';
+import PronunciationFeedback from './PronunciationFeedback';
+
+/**
+ * Records the learner pronouncing a word. The answer is the object URL of the
+ * recording, which is uploaded when the answer is submitted.
+ */
+const SpeakWordRenderer: React.FC<TaskRendererProps<string>> = ({ task, answer, onAnswerChange, disabled, result }) => {
+  const {
+    recording: isRecording,
+    audioUrl: recordedAudioUrl,
+    audioBlob,
+    startRecording,
+    stopRecording
+  } = useRecorder();
+
+  // Use the latest recording as the answer
+  useEffect(() => {
+    if (recordedAudioUrl) {
+      onAnswerChange(recordedAudioUrl);
+    }
+  }, [recordedAudioUrl, onAnswerChange]);
+
+  // Tell the learner before submitting if the recording can't be uploaded
+  const uploadProblem = audioBlob && answer === recordedAudioUrl ? validateAudioUpload(audioBlob) : null;
+
+  return (
+    <>
+      <div className="text-3xl font-bold text-center p-6 mb-4 bg-purple-50 rounded-lg">
+        <NepaliText text={task.word} />
+      </div>
+
+      {task.audio_hint_url && (
+        <div className="mb-4">
+          <h4 className="text-lg font-medium mb-2">Listen to pronunciation:</h4>
+          <audio controls className="w-full">
+            <source src={task.audio_hint_url} type="audio/mpeg" />
+            Your browser does not support the audio element.
+          </audio>
+        </div>
+      )}
+
+      <div className="mt-6">
+        {!isRecording && !answer && (
+          <button
+            className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors w-full"
+            onClick={startRecording}
+            disabled={disabled}
+          >
+            Start Recording
+          </button>
+        )}
+
+        {isRecording && (
+          <button
+            className="bg-red-600 text-white px-6 py-3 rounded-lg hover:bg-red-700 transition-colors w-full"
+            onClick={stopRecording}
+          >
+            Stop Recording
+          </button>
+        )}
+
+        {answer && !isRecording && (
+          <div className="space-y-4">
+            <audio key={answer} controls className="w-full">
+              <source src={answer} type={audioBlob?.type || 'audio/webm'} />
+              Your browser does not support the audio element.
+            </audio>
+
+            {uploadProblem && (
+              <div className="p-3 bg-yellow-100 text-yellow-800 rounded-lg text-sm">
+                {uploadProblem.message}
+              </div>
+            )}
+
+            <div className="flex justify-center">
+              <button
+                className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors"
+                onClick={startRecording}
+                disabled={disabled}
+              >
+                Record Again
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Detailed feedback once the recording has been checked */}
+      {result && answer && !isRecording && (
+        <PronunciationFeedback
+          referenceUrl={task.audio_hint_url}
+          recordingUrl={answer}
+          alignment={result.alignment}
+        />
+      )}
+    </>
+  );
+};
+
+const queueRecording = (audioBlob: Blob): PendingAudioAnswer => ({
+  pending_audio: audioBlob,
+  folder: 'recordings'
+});
+
+const speakWordTask: TaskTypeDefinition<string> = {
+  type: 'speak_word',
+  label: 'Speak Word',
+  getTitle: () => 'Speak this word:',
+  Renderer: SpeakWordRenderer,
+  isAnswerValid: (answer) => !!answer,
+  serializeAnswer: async (audioUrl, _task, { onProgress, signal }) => {
+    // Fetch the audio blob from the object URL and upload it
+    const response = await fetch(audioUrl);
+    const audioBlob = await response.blob();
+
+    const uploadProblem = validateAudioUpload(audioBlob);
+    if (uploadProblem) throw uploadProblem;
+
+    // Offline, the recording itself is queued and uploaded when the answer is replayed
+    if (!navigator.onLine) return queueRecording(audioBlob);
+
+    let fileInfo: FileUploadResponse;
+    try {
+      fileInfo = await uploadAudioFile(audioBlob, { onProgress, signal });
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      return queueRecording(audioBlob);
+    }
+    console.log('Audio uploaded successfully:', fileInfo);
+
+    // The server looks the recording up by object name and folder
+    return {
+      object_name: fileInfo.object_name,
+      folder: fileInfo.folder || 'recordings'
+    };
+  },
+  submitLabel: 'Submit Recording',
+  resultMessages: {
+    correct: 'Correct pronunciation!',
+    incorrect: 'Needs improvement.'
+  }
+};
+
+export default speakWordTask;
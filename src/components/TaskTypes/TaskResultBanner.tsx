@@ -0,0 +1,27 @@
+import React from 'react';
+import { TaskAnswerResult } from '@/api/taskService';
+
+interface TaskResultBannerProps {
+  result: TaskAnswerResult;
+  messages?: { correct: string; incorrect: string };
+}
+
+/**
+ * Correct/incorrect banner with the server's feedback, shared by all task types
+ */
+const TaskResultBanner: React.FC<TaskResultBannerProps> = ({
+  result,
+  messages = { correct: 'Correct!', incorrect: 'Incorrect.' }
+}) => (
+  <div className={`mt-4 p-3 rounded-lg ${
+    result.is_correct
+      ? 'bg-green-100 text-green-800'
+      : 'bg-red-100 text-red-800'
+  }`}>
+    {result.is_correct
+      ? messages.correct
+      : `${messages.incorrect} ${result.feedback || ''}`}
+  </div>
+);
+
+export default TaskResultBanner;
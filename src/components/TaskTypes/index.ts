@@ -0,0 +1,24 @@
+import { registerTaskType } from './registry';
+import { singleChoiceTask, multipleChoiceTask, imageIdentificationTask } from './ChoiceTask';
+import speakWordTask from './SpeakWordTask';
+import answerInWordTask from './AnswerInWordTask';
+import matchPairsTask from './MatchPairsTask';
+import reorderWordsTask from './ReorderWordsTask';
+import dictationTask from './DictationTask';
+import clozeTask from './ClozeTask';
+
+// Built-in task types; new types register themselves here
+registerTaskType(singleChoiceTask);
+registerTaskType(multipleChoiceTask);
+registerTaskType(imageIdentificationTask);
+registerTaskType(speakWordTask);
+registerTaskType(answerInWordTask);
+registerTaskType(matchPairsTask);
+registerTaskType(reorderWordsTask);
+registerTaskType(dictationTask);
+registerTaskType(clozeTask);
+
+export { registerTaskType, getTaskType, listTaskTypes } from './registry';
+export type { TaskTypeDefinition, TaskRendererProps, SerializeContext, VocabularyCandidate } from './types';
+export { getTaskVocabulary } from './utils';
+export { default as TaskResultBanner } from './TaskResultBanner';
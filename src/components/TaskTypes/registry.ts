@@ -0,0 +1,28 @@
+import { TaskTypeDefinition } from './types';
+
+const taskTypes = new Map<string, TaskTypeDefinition>();
+
+/**
+ * Register a task type so TaskItem can render, validate and submit it
+ */
+export const registerTaskType = <A>(definition: TaskTypeDefinition<A>): void => {
+  if (taskTypes.has(definition.type)) {
+    console.warn(`Task type "${definition.type}" is already registered and will be replaced`);
+  }
+  taskTypes.set(definition.type, definition as unknown as TaskTypeDefinition);
+};
+
+/**
+ * Look up the definition of a task type
+ * @returns The definition, or undefined if the type isn't supported
+ */
+export const getTaskType = (type: string): TaskTypeDefinition | undefined => {
+  return taskTypes.get(type);
+};
+
+/**
+ * List the registered task types
+ */
+export const listTaskTypes = (): TaskTypeDefinition[] => {
+  return Array.from(taskTypes.values());
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Task, TaskAnswerResult } from '@/api/taskService';
+
+/**
+ * Props passed to every task type renderer
+ */
+export interface TaskRendererProps<A = unknown> {
+  task: Task;
+  answer: A | undefined; // Current answer, not yet submitted
+  onAnswerChange: (answer: A | undefined) => void;
+  onSubmit: () => void; // Submit the current answer, e.g. when Enter is pressed
+  disabled: boolean; // True while submitting or when the task is read-only
+  result?: TaskAnswerResult | null; // Result of the submitted answer, for per-item feedback
+}
+
+/**
+ * Helpers available while an answer is turned into its submission payload
+ */
+export interface SerializeContext {
+  onProgress: (percent: number) => void; // Report progress of slow steps such as uploads
+  signal: AbortSignal; // Aborted when the learner cancels the submission or leaves the task
+}
+
+/**
+ * A word a learner can save to their vocabulary notebook from a task
+ */
+export interface VocabularyCandidate {
+  word: string; // Devanagari
+  meaning?: string;
+  audioUrl?: string; // Pronunciation of this word, when the task has one
+}
+
+/**
+ * Everything TaskItem needs to know about a task type
+ */
+export interface TaskTypeDefinition<A = unknown> {
+  type: string;
+  label: string; // Badge shown next to the question
+  getTitle?: (task: Task) => string | undefined; // Defaults to task.question
+  Renderer: React.ComponentType<TaskRendererProps<A>>;
+  isAnswerValid: (answer: A | undefined, task: Task) => boolean;
+  serializeAnswer: (answer: A, task: Task, context: SerializeContext) => unknown | Promise<unknown>;
+  restoreAnswer?: (savedAnswer: unknown, task: Task) => A | undefined; // Turn a saved submission back into an answer
+  getVocabulary?: (task: Task, revealAnswer: boolean) => VocabularyCandidate[]; // Defaults to the Devanagari words in the task; revealAnswer once it has been checked
+  submitLabel?: string; // Defaults to "Submit Answer"
+  resultMessages?: { correct: string; incorrect: string };
+}
@@ -0,0 +1,51 @@
+import { Task } from '@/api/taskService';
+import { containsDevanagari, tokenizeWords } from '@/lib/devanagari';
+import { TaskTypeDefinition, VocabularyCandidate } from './types';
+
+/**
+ * Return a shuffled copy of a list (Fisher-Yates)
+ */
+export const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Devanagari words of a task: its word, question and options, plus the
+ * expected answer once it may be revealed. The word of a speak_word task comes
+ * with its audio hint.
+ */
+export const getDefaultVocabulary = (task: Task, revealAnswer: boolean): VocabularyCandidate[] => {
+  const candidates: VocabularyCandidate[] = [];
+  if (task.word) {
+    candidates.push({ word: task.word, audioUrl: task.audio_hint_url });
+  }
+
+  const texts = [task.question, ...(task.options || []), ...(revealAnswer ? [task.answer] : [])];
+  texts
+    .filter((text): text is string => typeof text === 'string')
+    .flatMap(tokenizeWords)
+    .filter(containsDevanagari)
+    .forEach(word => candidates.push({ word }));
+
+  // Keep the first occurrence of each word, which carries the most detail
+  return candidates.filter((candidate, index) =>
+    candidates.findIndex(other => other.word === candidate.word) === index
+  );
+};
+
+/**
+ * Words a learner can save from a task, through its type when it knows better
+ * @param revealAnswer Whether the task has been checked, so words from its answer may be shown
+ */
+export const getTaskVocabulary = (
+  task: Task,
+  taskType: TaskTypeDefinition | undefined,
+  revealAnswer: boolean
+): VocabularyCandidate[] => {
+  return taskType?.getVocabulary ? taskType.getVocabulary(task, revealAnswer) : getDefaultVocabulary(task, revealAnswer);
+};
@@ -1,12 +1,14 @@
 
 import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { validateTenant, loginUser } from "@/api/authService";
 import { useAuth } from "@/context/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useLoginRedirect } from "@/hooks/useLoginRedirect";
+import { useTenant } from "@/context/TenantContext";
 
 interface TenantLoginProps {
   initialSlug?: string;
@@ -19,9 +21,12 @@ const TenantLogin: React.FC<TenantLoginProps> = ({ initialSlug = "" }) => {
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
-  const { login, setTenantSlug: updateTenantSlug } = useAuth();
+  const { login } = useAuth();
+  const { tenant, displayName, logoUrl } = useTenant();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
+  const getRedirectPath = useLoginRedirect();
 
   const handleTenantSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,8 +44,9 @@ const TenantLogin: React.FC<TenantLoginProps> = ({ initialSlug = "" }) => {
     setIsLoading(false);
 
     if (isValid) {
-      updateTenantSlug(tenantSlug);
+      // The tenant's login page makes it the active tenant; keep any redirect target
       setStep(1);
+      navigate(`/${tenantSlug}/login`, { state: location.state });
     } else {
       toast({
         title: "Invalid Tenant",
@@ -72,7 +78,7 @@ const TenantLogin: React.FC<TenantLoginProps> = ({ initialSlug = "" }) => {
         title: "Success",
         description: "You have successfully logged in",
       });
-      navigate("/dashboard");
+      navigate(getRedirectPath(response.user.tenantSlug || tenantSlug), { replace: true });
     } else {
       toast({
         title: "Login Failed",
@@ -85,13 +91,16 @@ const TenantLogin: React.FC<TenantLoginProps> = ({ initialSlug = "" }) => {
   return (
     <Card className="w-full max-w-md mx-auto shadow-lg">
       <CardHeader>
+        {step === 1 && logoUrl && (
+          <img src={logoUrl} alt={displayName} className="h-16 mx-auto mb-2 object-contain" />
+        )}
         <CardTitle className="text-2xl text-center text-nepali-maroon">
           {step === 0 ? "Enter Tenant ID" : "Login to Your Account"}
         </CardTitle>
         <CardDescription className="text-center">
           {step === 0
             ? "Please enter your organization's tenant ID"
-            : `Login to ${tenantSlug}`}
+            : `Login to ${tenant ? displayName : tenantSlug}`}
         </CardDescription>
       </CardHeader>
       <CardContent>
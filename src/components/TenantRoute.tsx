@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Outlet, useParams } from 'react-router-dom';
+import { Building2 } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { TenantProvider } from '@/context/TenantContext';
+import { ScriptProvider } from '@/context/ScriptContext';
+import { fetchTenantConfig } from '@/api/tenantService';
+import { TenantConfig } from '@/types/Tenant';
+
+// Slug lookups are shared across mounts so switching back to a tenant doesn't re-validate
+const tenantConfigCache = new Map<string, Promise<TenantConfig | null>>();
+
+const lookupTenant = (slug: string): Promise<TenantConfig | null> => {
+  if (!tenantConfigCache.has(slug)) {
+    const lookup = fetchTenantConfig(slug).then((config) => {
+      if (!config) {
+        tenantConfigCache.delete(slug);
+      }
+      return config;
+    });
+    tenantConfigCache.set(slug, lookup);
+  }
+  return tenantConfigCache.get(slug);
+};
+
+/**
+ * Layout route for everything under `/:slug`. Validates the slug and loads the
+ * tenant's configuration, makes it the active tenant and rejects stored sessions
+ * that were issued for another tenant.
+ */
+const TenantRoute: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { user, tenantSlug, isHydrated, setTenantSlug, logout } = useAuth();
+  const [tenant, setTenant] = useState<TenantConfig | null>(null);
+  const [status, setStatus] = useState<'validating' | 'valid' | 'invalid'>('validating');
+
+  // Validate the slug against the backend
+  useEffect(() => {
+    if (!slug) return;
+
+    let cancelled = false;
+    setStatus('validating');
+
+    lookupTenant(slug).then((config) => {
+      if (cancelled) return;
+      setTenant(config);
+      setStatus(config ? 'valid' : 'invalid');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  // Make the URL's tenant the active one once it is known to exist
+  useEffect(() => {
+    if (isHydrated && status === 'valid' && slug && slug !== tenantSlug) {
+      setTenantSlug(slug);
+    }
+  }, [isHydrated, status, slug, tenantSlug, setTenantSlug]);
+
+  const tenantId = tenant?.tenantId;
+  const isActive = isHydrated && status === 'valid' && slug === tenantSlug;
+  const tenantMismatch = isActive && !!user?.tenantId && !!tenantId && user.tenantId !== tenantId;
+
+  // A token issued for another tenant must not be used under this slug
+  useEffect(() => {
+    if (tenantMismatch) {
+      console.warn(`Stored session belongs to tenant ${user?.tenantId}, not ${tenantId}; signing out`);
+      logout();
+    }
+  }, [tenantMismatch, user?.tenantId, tenantId, logout]);
+
+  if (status === 'invalid') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center">
+          <Building2 className="h-12 w-12 mx-auto mb-4 text-nepali-red" />
+          <h1 className="text-2xl font-bold mb-2">Unknown tenant</h1>
+          <p className="text-gray-600 mb-4">
+            No organization named <span className="font-semibold">{slug}</span> was found.
+          </p>
+          <a href="/" className="text-blue-500 hover:text-blue-700 underline">
+            Choose another tenant
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isActive || tenantMismatch) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <TenantProvider tenant={tenant}>
+      <ScriptProvider>
+        <Outlet />
+      </ScriptProvider>
+    </TenantProvider>
+  );
+};
+
+export default TenantRoute;
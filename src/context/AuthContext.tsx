@@ -1,14 +1,32 @@
 
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from "react";
 import { UserData } from "../types/User";
+import {
+  loadStoredUser,
+  storeUser,
+  clearStoredUser,
+  getActiveTenantSlug,
+  setActiveTenantSlug,
+  listStoredTenantSlugs,
+  subscribeToStoredUser
+} from "../api/authStorage";
+import { setUnauthorizedHandler, refreshSession } from "../api/httpBase";
+import { clearGoalReminder } from "../api/goalReminders";
+import SessionExpiredDialog from "../components/SessionExpiredDialog";
+
+// Refresh the access token this long before it expires
+const PROACTIVE_REFRESH_MARGIN_MS = 2 * 60 * 1000;
 
 interface AuthContextType {
   user: UserData | null;
   tenantSlug: string | null;
   isAuthenticated: boolean;
+  isHydrated: boolean; // True once the stored session has been read
+  sessionExpired: boolean;
+  signedInTenants: string[]; // Tenants with a stored session, including the active one
   login: (userData: UserData) => void;
   logout: () => void;
-  setTenantSlug: (slug: string) => void;
+  setTenantSlug: (slug: string) => void; // Switch the active tenant, keeping other sessions
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -17,50 +35,117 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<UserData | null>(null);
   const [tenantSlug, setTenantSlug] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [signedInTenants, setSignedInTenants] = useState<string[]>([]);
+
+  // Resolves the API client's pending re-authentication prompt
+  const reauthResolverRef = useRef<((reauthenticated: boolean) => void) | null>(null);
 
   useEffect(() => {
     // Load user data from localStorage on mount
-    const storedUser = localStorage.getItem("nepali_user");
-    const storedTenantSlug = localStorage.getItem("tenant_slug");
-    
+    const storedUser = loadStoredUser();
+    const storedTenantSlug = getActiveTenantSlug();
+
     if (storedUser) {
-      try {
-        const userData = JSON.parse(storedUser);
-        setUser(userData);
-        setIsAuthenticated(true);
-      } catch (error) {
-        console.error("Failed to parse user data:", error);
-        localStorage.removeItem("nepali_user");
-        setIsAuthenticated(false);
-      }
+      setUser(storedUser);
+      setIsAuthenticated(true);
     }
 
     if (storedTenantSlug) {
       setTenantSlug(storedTenantSlug);
     }
+
+    setSignedInTenants(listStoredTenantSlugs());
+    setIsHydrated(true);
   }, []);
 
   const login = (userData: UserData) => {
-    setUser(userData);
-    setIsAuthenticated(true);
-    localStorage.setItem("nepali_user", JSON.stringify(userData));
-    
-    if (userData.tenantSlug) {
-      setTenantSlug(userData.tenantSlug);
-      localStorage.setItem("tenant_slug", userData.tenantSlug);
+    const slug = userData.tenantSlug || tenantSlug;
+    const session = { ...userData, tenantSlug: slug };
+
+    if (slug) {
+      setTenantSlug(slug);
+      setActiveTenantSlug(slug);
     }
+
+    setUser(session);
+    setIsAuthenticated(true);
+    storeUser(session);
   };
 
   const logout = () => {
     setUser(null);
     setIsAuthenticated(false);
-    localStorage.removeItem("nepali_user");
+    // Only the active tenant is signed out; other tenants keep their sessions
+    clearStoredUser();
+    // The practice reminder belongs to the signed-out user
+    clearGoalReminder().catch((error) => console.error("Failed to clear practice reminder:", error));
     // Note: We don't remove tenant_slug on logout as per requirements
   };
 
-  const updateTenantSlug = (slug: string) => {
+  const updateTenantSlug = useCallback((slug: string) => {
+    setActiveTenantSlug(slug);
     setTenantSlug(slug);
-    localStorage.setItem("tenant_slug", slug);
+
+    const storedUser = loadStoredUser(slug);
+    setUser(storedUser);
+    setIsAuthenticated(!!storedUser);
+  }, []);
+
+  // Pick up sessions changed outside React, e.g. tokens refreshed by the API client
+  useEffect(() => {
+    return subscribeToStoredUser((storedUser, slug) => {
+      if (slug === getActiveTenantSlug()) {
+        setUser(storedUser);
+        setIsAuthenticated(!!storedUser);
+      }
+      setSignedInTenants(listStoredTenantSlugs());
+    });
+  }, []);
+
+  // Refresh the access token shortly before it expires
+  useEffect(() => {
+    if (!user?.tokenExpiresAt || !user.refreshToken) return;
+
+    const delay = Math.max(user.tokenExpiresAt - Date.now() - PROACTIVE_REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(() => {
+      refreshSession();
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [user?.tokenExpiresAt, user?.refreshToken]);
+
+  // Ask the user to sign in again instead of redirecting when the session can't be refreshed
+  useEffect(() => {
+    return setUnauthorizedHandler(() => {
+      if (!loadStoredUser()) {
+        return Promise.resolve(false);
+      }
+
+      setSessionExpired(true);
+      return new Promise<boolean>((resolve) => {
+        reauthResolverRef.current = resolve;
+      });
+    });
+  }, []);
+
+  const settleReauthentication = (reauthenticated: boolean) => {
+    setSessionExpired(false);
+    reauthResolverRef.current?.(reauthenticated);
+    reauthResolverRef.current = null;
+  };
+
+  const handleReauthenticated = (userData: UserData) => {
+    login(userData);
+    settleReauthentication(true);
+  };
+
+  const handleSessionSignOut = () => {
+    const slug = user?.tenantSlug || tenantSlug;
+    logout();
+    settleReauthentication(false);
+    window.location.href = slug ? `/${slug}/login` : "/";
   };
 
   return (
@@ -69,12 +154,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         user,
         tenantSlug,
         isAuthenticated,
+        isHydrated,
+        sessionExpired,
+        signedInTenants,
         login,
         logout,
         setTenantSlug: updateTenantSlug
       }}
     >
       {children}
+      {user && (
+        <SessionExpiredDialog
+          open={sessionExpired}
+          username={user.username}
+          tenantSlug={user.tenantSlug || tenantSlug || ""}
+          onReauthenticated={handleReauthenticated}
+          onSignOut={handleSessionSignOut}
+        />
+      )}
     </AuthContext.Provider>
   );
 };
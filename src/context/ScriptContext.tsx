@@ -0,0 +1,96 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { useAuth } from "./AuthContext";
+import { devanagariToRoman, RomanizationScheme } from "../lib/transliteration";
+import { containsDevanagari } from "../lib/devanagari";
+
+export const SCRIPT_PREFERENCE_STORAGE_KEY = "nepali_script";
+
+/**
+ * How Nepali text is shown: as written, romanized, or romanized under the Devanagari
+ */
+export type ScriptDisplay = "devanagari" | "roman" | "both";
+
+export interface ScriptPreference {
+  display: ScriptDisplay;
+  romanization: RomanizationScheme;
+}
+
+interface ScriptContextType extends ScriptPreference {
+  setDisplay: (display: ScriptDisplay) => void;
+  setRomanization: (romanization: RomanizationScheme) => void;
+  romanize: (text: string) => string;
+  formatNepali: (text: string) => string; // Plain-text form for places that can't render <NepaliText>
+}
+
+const DEFAULT_PREFERENCE: ScriptPreference = { display: "devanagari", romanization: "simple" };
+
+const toPlainText = (text: string, { display, romanization }: ScriptPreference): string => {
+  if (!text || display === "devanagari" || !containsDevanagari(text)) return text;
+  const roman = devanagariToRoman(text, romanization);
+  return display === "roman" ? roman : `${text} (${roman})`;
+};
+
+// Outside a tenant the text is shown as written
+const defaultContext: ScriptContextType = {
+  ...DEFAULT_PREFERENCE,
+  setDisplay: () => undefined,
+  setRomanization: () => undefined,
+  romanize: (text) => devanagariToRoman(text, DEFAULT_PREFERENCE.romanization),
+  formatNepali: (text) => text
+};
+
+const ScriptContext = createContext<ScriptContextType>(defaultContext);
+
+// Kept per tenant and user so people sharing a browser each keep their own setting
+const preferenceStorageKey = (slug: string, userId: string) =>
+  `${SCRIPT_PREFERENCE_STORAGE_KEY}:${slug}:${userId}`;
+
+const loadPreference = (key: string | null): ScriptPreference => {
+  const stored = key && localStorage.getItem(key);
+  if (!stored) return DEFAULT_PREFERENCE;
+
+  try {
+    return { ...DEFAULT_PREFERENCE, ...(JSON.parse(stored) as Partial<ScriptPreference>) };
+  } catch (error) {
+    console.error("Failed to parse script preference:", error);
+    localStorage.removeItem(key);
+    return DEFAULT_PREFERENCE;
+  }
+};
+
+export const ScriptProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, tenantSlug } = useAuth();
+  const slug = user?.tenantSlug || tenantSlug;
+  const storageKey = user?.id && slug ? preferenceStorageKey(slug, user.id) : null;
+
+  const [preference, setPreference] = useState<ScriptPreference>(() => loadPreference(storageKey));
+
+  // Switch to the preference of whoever is signed in
+  useEffect(() => {
+    setPreference(loadPreference(storageKey));
+  }, [storageKey]);
+
+  const updatePreference = useCallback((changes: Partial<ScriptPreference>) => {
+    setPreference((current) => {
+      const next = { ...current, ...changes };
+      if (storageKey) {
+        localStorage.setItem(storageKey, JSON.stringify(next));
+      }
+      return next;
+    });
+  }, [storageKey]);
+
+  const value = useMemo<ScriptContextType>(() => ({
+    ...preference,
+    setDisplay: (display) => updatePreference({ display }),
+    setRomanization: (romanization) => updatePreference({ romanization }),
+    romanize: (text) => devanagariToRoman(text, preference.romanization),
+    formatNepali: (text) => toPlainText(text, preference)
+  }), [preference, updatePreference]);
+
+  return <ScriptContext.Provider value={value}>{children}</ScriptContext.Provider>;
+};
+
+export const useScript = () => {
+  return useContext(ScriptContext);
+};
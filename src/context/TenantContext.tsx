@@ -0,0 +1,44 @@
+import React, { createContext, useContext, useEffect, useMemo } from "react";
+import { TenantConfig } from "../types/Tenant";
+import { DEFAULT_TENANT_DISPLAY_NAME } from "../api/tenantService";
+import { applyTenantTheme } from "../lib/theme";
+
+interface TenantContextType {
+  tenant: TenantConfig | null;
+  displayName: string;
+  logoUrl?: string;
+  isTaskTypeEnabled: (taskType: string) => boolean;
+}
+
+// Outside a tenant (e.g. the tenant picker on "/") the default branding applies
+const defaultContext: TenantContextType = {
+  tenant: null,
+  displayName: DEFAULT_TENANT_DISPLAY_NAME,
+  isTaskTypeEnabled: () => true
+};
+
+const TenantContext = createContext<TenantContextType>(defaultContext);
+
+export const TenantProvider: React.FC<{ tenant: TenantConfig; children: React.ReactNode }> = ({
+  tenant,
+  children
+}) => {
+  // Apply theme colors, language and title while this tenant is active
+  useEffect(() => {
+    return applyTenantTheme(tenant);
+  }, [tenant]);
+
+  const value = useMemo<TenantContextType>(() => ({
+    tenant,
+    displayName: tenant.displayName,
+    logoUrl: tenant.logoUrl,
+    isTaskTypeEnabled: (taskType: string) =>
+      !tenant.enabledTaskTypes || tenant.enabledTaskTypes.includes(taskType)
+  }), [tenant]);
+
+  return <TenantContext.Provider value={value}>{children}</TenantContext.Provider>;
+};
+
+export const useTenant = () => {
+  return useContext(TenantContext);
+};
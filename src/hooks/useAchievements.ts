@@ -0,0 +1,66 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AchievementsState, loadAchievements, subscribeToAchievements } from '../api/achievements';
+import { AchievementStats, BADGES, getLevel, getXp, isPerfectSet } from '../lib/achievements';
+import { useAuth } from '../context/AuthContext';
+import { useDailyGoal } from './useDailyGoal';
+import { usePracticeHistory } from './usePracticeHistory';
+
+/**
+ * XP, level and badges of the signed-in user, from the stored task set scores,
+ * the practice history and the goal streak
+ */
+export const useAchievements = () => {
+  const { user } = useAuth();
+  const history = usePracticeHistory();
+  const { streak } = useDailyGoal();
+  const [state, setState] = useState<AchievementsState>(loadAchievements);
+
+  useEffect(() => {
+    setState(loadAchievements());
+    return subscribeToAchievements(setState);
+  }, [user?.id]);
+
+  const xp = useMemo(() => getXp(state.scores), [state.scores]);
+  const level = getLevel(xp);
+
+  const stats = useMemo<AchievementStats>(() => {
+    // A task answered correctly more than once counts once
+    const correctTasks = new Map<string, string>();
+    history.answers.forEach(answer => {
+      if (answer.isCorrect) correctTasks.set(answer.taskId, answer.taskType);
+    });
+    const correctByTaskType: Record<string, number> = {};
+    correctTasks.forEach(taskType => {
+      correctByTaskType[taskType] = (correctByTaskType[taskType] || 0) + 1;
+    });
+
+    return {
+      xp,
+      level: level.level,
+      answeredTasks: history.answers.length,
+      correctAnswers: correctTasks.size,
+      correctByTaskType,
+      perfectSets: Object.values(state.scores).filter(isPerfectSet).length,
+      longestStreak: streak.longest
+    };
+  }, [xp, level.level, history.answers, state.scores, streak.longest]);
+
+  const badges = useMemo(() => BADGES.map(badge => {
+    const progress = badge.getProgress(stats);
+    return {
+      ...badge,
+      progress,
+      earned: progress.value >= progress.target,
+      unlockedAt: state.unlocked[badge.id]
+    };
+  }), [stats, state.unlocked]);
+
+  return {
+    xp,
+    ...level,
+    stats,
+    badges,
+    announcedLevel: state.announcedLevel,
+    backfilled: !!state.backfilledAt // Scores of earlier task sets have been fetched
+  };
+};
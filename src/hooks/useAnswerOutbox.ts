@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  flushOutbox,
+  listOutboxEntries,
+  OutboxEntry,
+  subscribeToOutbox,
+  SyncedAnswer
+} from '../api/answerOutbox';
+
+/**
+ * Answers waiting in the offline outbox, and whether the browser is online.
+ * Queued answers are replayed on mount and whenever the connection comes back.
+ * @param onSynced Called with the answers that reached the server after a replay
+ */
+export const useAnswerOutbox = (onSynced?: (answers: SyncedAnswer[]) => void) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Latest callback, so callers don't have to memoize it
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refresh = useCallback(() => {
+    listOutboxEntries()
+      .then(setEntries)
+      .catch((error) => console.error('Failed to read the answer outbox:', error));
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      return await flushOutbox();
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToOutbox((event) => {
+      if (event.type === 'synced') {
+        onSyncedRef.current?.(event.answers);
+      }
+      refresh();
+    });
+  }, [refresh]);
+
+  // Replay when the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    if (navigator.onLine) {
+      syncNow();
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  const pendingTaskIds = useMemo(() => new Set(entries.map(entry => entry.taskId)), [entries]);
+
+  return {
+    entries,
+    pendingCount: entries.length,
+    pendingTaskIds,
+    isOnline,
+    isSyncing,
+    syncNow
+  };
+};
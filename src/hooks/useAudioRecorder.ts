@@ -15,6 +15,7 @@ export const useRecorder = ({ onDataAvailable }: UseRecorderOptions = {}) => {
   // State
   const [recording, setRecording] = useState<boolean>(false);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
 
@@ -48,6 +49,7 @@ export const useRecorder = ({ onDataAvailable }: UseRecorderOptions = {}) => {
 
     // Reset state
     setAudioUrl(null);
+    setAudioBlob(null);
     setError(null);
     audioChunksRef.current = [];
     console.log('State reset for new recording');
@@ -103,6 +105,7 @@ export const useRecorder = ({ onDataAvailable }: UseRecorderOptions = {}) => {
         const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
         console.log(`Created audio blob: ${audioBlob.size} bytes`);
         const url = URL.createObjectURL(audioBlob);
+        setAudioBlob(audioBlob);
         setAudioUrl(url);
       };
 
@@ -175,6 +178,7 @@ export const useRecorder = ({ onDataAvailable }: UseRecorderOptions = {}) => {
 
       // Clear state
       setAudioUrl(null);
+      setAudioBlob(null);
       audioChunksRef.current = [];
 
       // Stop audio tracks
@@ -216,6 +220,7 @@ export const useRecorder = ({ onDataAvailable }: UseRecorderOptions = {}) => {
   return {
     recording,
     audioUrl,
+    audioBlob,
     error,
     startRecording,
     stopRecording,
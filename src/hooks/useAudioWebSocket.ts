@@ -1,4 +1,10 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { ApiError, ensureFreshSession, recoverSession } from '@/api/httpBase';
+
+/**
+ * Close codes the server uses when the token is missing, invalid or expired
+ */
+const AUTH_CLOSE_CODES = [1008, 4001, 4401];
 
 /**
  * WebSocket connection status
@@ -49,12 +55,16 @@ export function useAudioWebSocket({
   /**
    * Connect to WebSocket server
    */
-  const connectWebSocket = useCallback(() => {
+  const connectWebSocket = useCallback(async () => {
     if (!token) {
       console.error('Cannot connect WebSocket: No token provided');
       return null;
     }
 
+    // The socket can't be retried with a new token like HTTP requests, so refresh first
+    const freshUser = await ensureFreshSession();
+    const socketToken = freshUser?.token || token;
+
     // Close existing connection
     if (webSocketRef.current && webSocketRef.current.readyState === WebSocket.OPEN) {
       webSocketRef.current.close();
@@ -65,8 +75,8 @@ export function useAudioWebSocket({
 
     // Create WebSocket connection
     const wsUrl = apiUrl.replace(/^http/, 'ws');
-    const wsFullUrl = `${wsUrl}/ws/stream/audio?token=${token}`;
-    console.log('WebSocket URL:', wsFullUrl.replace(token, 'TOKEN_HIDDEN'));
+    const wsFullUrl = `${wsUrl}/ws/stream/audio?token=${socketToken}`;
+    console.log('WebSocket URL:', wsFullUrl.replace(socketToken, 'TOKEN_HIDDEN'));
     const ws = new WebSocket(wsFullUrl);
 
     // Set up event handlers
@@ -133,6 +143,14 @@ export function useAudioWebSocket({
 
     ws.onclose = (event) => {
       console.log('WebSocket closed:', event.code, event.reason);
+
+      if (AUTH_CLOSE_CODES.includes(event.code)) {
+        // Token rejected: recover the session so the next connection attempt succeeds
+        setWsStatus('error');
+        recoverSession(new ApiError(event.reason || 'Session expired', 401));
+        return;
+      }
+
       setWsStatus('disconnected');
     };
 
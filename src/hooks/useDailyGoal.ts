@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DailyGoalState,
+  loadDailyGoalState,
+  ReminderSettings,
+  subscribeToDailyGoal,
+  updateDailyGoalState
+} from '../api/dailyGoals';
+import { DailyGoal, evaluateStreak, getDayProgress, getDisplayedStreak } from '../lib/dailyGoals';
+import { toDayKey } from '../lib/practiceStats';
+import { useAuth } from '../context/AuthContext';
+import { usePracticeHistory } from './usePracticeHistory';
+
+/**
+ * Today's progress towards the daily goal and the goal streak of the signed-in
+ * user. Days that have passed are settled into the streak as the hook sees them,
+ * using up streak freezes for missed days.
+ */
+export const useDailyGoal = () => {
+  const { user } = useAuth();
+  const history = usePracticeHistory();
+  const [state, setState] = useState<DailyGoalState>(loadDailyGoalState);
+
+  useEffect(() => {
+    setState(loadDailyGoalState());
+    return subscribeToDailyGoal(setState);
+  }, [user?.id]);
+
+  const answersByDay = useMemo(() => {
+    const counts: Record<string, number> = {};
+    history.answers.forEach(answer => {
+      const day = toDayKey(answer.answeredAt);
+      counts[day] = (counts[day] || 0) + 1;
+    });
+    return counts;
+  }, [history.answers]);
+
+  const isGoalMet = useCallback(
+    (day: string) => getDayProgress(state.goal, answersByDay, history.secondsByDay, day).met,
+    [state.goal, answersByDay, history.secondsByDay]
+  );
+
+  // Settle the days that have passed since the streak was last evaluated
+  useEffect(() => {
+    const activeDays = [...Object.keys(answersByDay), ...Object.keys(history.secondsByDay)].sort();
+    const evaluated = evaluateStreak(state.streak, isGoalMet, activeDays[0]);
+    if (evaluated !== state.streak) {
+      updateDailyGoalState({ streak: evaluated });
+    }
+  }, [state.streak, isGoalMet, answersByDay, history.secondsByDay]);
+
+  const today = toDayKey(Date.now());
+  const todayProgress = getDayProgress(state.goal, answersByDay, history.secondsByDay, today);
+  const streak = getDisplayedStreak(state.streak, todayProgress.met);
+
+  const setGoal = useCallback((goal: DailyGoal) => {
+    updateDailyGoalState({ goal });
+  }, []);
+
+  const setReminder = useCallback((reminder: ReminderSettings) => {
+    updateDailyGoalState({ reminder });
+  }, []);
+
+  return {
+    goal: state.goal,
+    reminder: state.reminder,
+    today,
+    todayProgress,
+    streak,
+    freezes: state.streak.freezes,
+    frozenDays: state.streak.frozenDays,
+    setGoal,
+    setReminder
+  };
+};
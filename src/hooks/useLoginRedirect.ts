@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useLocation, Location } from 'react-router-dom';
+
+/**
+ * Location state set by ProtectedRoute when it sends the user to the login page
+ */
+export interface LoginRedirectState {
+  from?: Location;
+}
+
+/**
+ * Hook returning a function that resolves the URL to open after logging in to a tenant:
+ * the page originally requested within that tenant, or its dashboard
+ */
+export const useLoginRedirect = () => {
+  const location = useLocation();
+  const from = (location.state as LoginRedirectState | null)?.from;
+
+  return useCallback(
+    (slug: string) => {
+      if (!from?.pathname || !from.pathname.startsWith(`/${slug}/`) || from.pathname.endsWith('/login')) {
+        return `/${slug}/dashboard`;
+      }
+
+      return `${from.pathname}${from.search || ''}${from.hash || ''}`;
+    },
+    [from]
+  );
+};
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  downloadTaskSetForOffline,
+  DownloadProgress,
+  listOfflineTaskSetIds,
+  removeOfflineTaskSet,
+  subscribeToOfflineTaskSets
+} from '../api/offlineTaskSets';
+import { toApiError } from '../api/httpBase';
+
+/**
+ * Whether a task set is downloaded for offline use, with actions to download or remove it
+ */
+export const useOfflineTaskSet = (taskSetId: string | undefined) => {
+  const [isAvailable, setIsAvailable] = useState(false);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null); // Set while downloading
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!taskSetId) return;
+
+    let cancelled = false;
+    const refresh = () => {
+      listOfflineTaskSetIds()
+        .then((ids) => {
+          if (!cancelled) setIsAvailable(ids.includes(taskSetId));
+        })
+        .catch((err) => console.error('Failed to read offline task sets:', err));
+    };
+
+    refresh();
+    const unsubscribe = subscribeToOfflineTaskSets(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [taskSetId]);
+
+  const download = useCallback(async () => {
+    if (!taskSetId) return;
+
+    setError(null);
+    setProgress({ completed: 0, total: 0 });
+    try {
+      await downloadTaskSetForOffline(taskSetId, setProgress);
+    } catch (err) {
+      console.error('Error downloading task set for offline use:', err);
+      setError(toApiError(err).message);
+    } finally {
+      setProgress(null);
+    }
+  }, [taskSetId]);
+
+  const remove = useCallback(async () => {
+    if (!taskSetId) return;
+
+    try {
+      await removeOfflineTaskSet(taskSetId);
+    } catch (err) {
+      console.error('Error removing offline task set:', err);
+    }
+  }, [taskSetId]);
+
+  return {
+    isAvailable,
+    isDownloading: progress !== null,
+    progress,
+    error,
+    download,
+    remove
+  };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { getPracticeHistory, PracticeHistory, subscribeToPracticeHistory } from '../api/practiceHistory';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Practice history of the signed-in user, kept up to date as answers and practice time are recorded
+ */
+export const usePracticeHistory = (): PracticeHistory => {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<PracticeHistory>(getPracticeHistory);
+
+  useEffect(() => {
+    const refresh = () => setHistory(getPracticeHistory());
+    refresh();
+    return subscribeToPracticeHistory(refresh);
+  }, [user?.id]);
+
+  return history;
+};
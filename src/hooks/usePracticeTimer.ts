@@ -0,0 +1,59 @@
+import { useEffect } from 'react';
+import { addPracticeTime } from '../api/practiceHistory';
+
+// Time without any input after which the learner is taken to have stepped away
+const IDLE_AFTER_MS = 60 * 1000;
+const TICK_MS = 5 * 1000;
+// Practice time is written out in batches rather than on every tick
+const FLUSH_EVERY_MS = 30 * 1000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'] as const;
+
+/**
+ * Count the time spent practicing on the current page towards the practice
+ * minutes of the progress page. Only time with the tab visible and recent
+ * input is counted.
+ * @param active Whether the page is currently a practice page (e.g. not a summary)
+ */
+export const usePracticeTimer = (active: boolean = true) => {
+  useEffect(() => {
+    if (!active) return;
+
+    let lastActivityAt = Date.now();
+    let lastTickAt = Date.now();
+    let unsavedMs = 0;
+
+    const markActivity = () => {
+      lastActivityAt = Date.now();
+    };
+
+    const flush = () => {
+      const seconds = Math.round(unsavedMs / 1000);
+      if (seconds > 0) {
+        addPracticeTime(seconds);
+        unsavedMs -= seconds * 1000;
+      }
+    };
+
+    const tick = () => {
+      const now = Date.now();
+      if (document.visibilityState === 'visible' && now - lastActivityAt < IDLE_AFTER_MS) {
+        unsavedMs += now - lastTickAt;
+      }
+      lastTickAt = now;
+      if (unsavedMs >= FLUSH_EVERY_MS) {
+        flush();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActivity, { passive: true }));
+    const interval = window.setInterval(tick, TICK_MS);
+
+    return () => {
+      tick();
+      flush();
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActivity));
+    };
+  }, [active]);
+};
@@ -0,0 +1,22 @@
+import { useEffect, useMemo, useState } from 'react';
+import { listReviewCards, subscribeToReviewQueue } from '../api/reviewQueue';
+import { isReviewDue, ReviewCard } from '../lib/spacedRepetition';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Review cards of the signed-in user, kept up to date as answers are recorded
+ */
+export const useReviewQueue = () => {
+  const { user } = useAuth();
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setCards(listReviewCards());
+    refresh();
+    return subscribeToReviewQueue(refresh);
+  }, [user?.id]);
+
+  const dueCount = useMemo(() => cards.filter(card => isReviewDue(card)).length, [cards]);
+
+  return { cards, dueCount };
+};
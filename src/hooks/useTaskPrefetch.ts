@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Task } from '../api/taskService';
+import { fetchTaskOrOffline } from '../api/offlineTaskSets';
+
+// Number of upcoming tasks loaded in the background, overridable per deployment
+export const TASK_PREFETCH_COUNT = Number(import.meta.env.VITE_TASK_PREFETCH_COUNT) || 2;
+
+// Task content doesn't change once generated, so cached tasks stay fresh for the session
+const TASK_CACHE_TIME_MS = 30 * 60 * 1000;
+
+export const taskQueryKey = (taskId: string) => ['task', taskId] as const;
+
+// Asset URLs already requested, so revisits don't download them again
+const preloadedAssets = new Set<string>();
+
+/**
+ * Warm the browser cache with a task's image and audio hint
+ */
+export const preloadTaskAssets = (task: Task): void => {
+  if (task.image_url && !preloadedAssets.has(task.image_url)) {
+    preloadedAssets.add(task.image_url);
+    const image = new Image();
+    image.src = task.image_url;
+  }
+
+  if (task.audio_hint_url && !preloadedAssets.has(task.audio_hint_url)) {
+    preloadedAssets.add(task.audio_hint_url);
+    const audio = new Audio();
+    audio.preload = 'auto';
+    audio.src = task.audio_hint_url;
+  }
+};
+
+/**
+ * Load the tasks of a set through the React Query cache, keeping the next
+ * `prefetchCount` tasks after the current one loaded in the background.
+ * Concurrent requests for the same task share a single fetch.
+ * @param taskRefs Task IDs or full task objects of the set, in order
+ * @param currentIndex Index of the task being shown
+ * @param prefetchCount How many following tasks to prefetch
+ */
+export const useTaskPrefetch = (
+  taskRefs: Array<Task | string> | undefined,
+  currentIndex: number,
+  prefetchCount: number = TASK_PREFETCH_COUNT
+) => {
+  const queryClient = useQueryClient();
+  const [tasks, setTasks] = useState<Task[]>([]); // Loaded tasks, indexed by their position in the set
+
+  // Ignore responses that arrive after switching to another task set
+  const taskRefsRef = useRef(taskRefs);
+
+  useEffect(() => {
+    taskRefsRef.current = taskRefs;
+    setTasks([]);
+  }, [taskRefs]);
+
+  const loadTask = useCallback(async (index: number): Promise<Task> => {
+    const taskRef = taskRefs?.[index];
+    if (!taskRef) {
+      throw new Error(`No task at index ${index}`);
+    }
+
+    let task: Task;
+    if (typeof taskRef === 'string') {
+      task = await queryClient.fetchQuery({
+        queryKey: taskQueryKey(taskRef),
+        queryFn: () => fetchTaskOrOffline(taskRef),
+        staleTime: TASK_CACHE_TIME_MS,
+        gcTime: TASK_CACHE_TIME_MS
+      });
+    } else {
+      // Tasks included in the set response are cached for later visits too
+      task = taskRef;
+      const taskId = task.id || task._id;
+      if (taskId) {
+        queryClient.setQueryData(taskQueryKey(taskId), task);
+      }
+    }
+
+    preloadTaskAssets(task);
+
+    if (taskRefsRef.current === taskRefs) {
+      setTasks(prevTasks => {
+        if (prevTasks[index] === task) return prevTasks;
+        const nextTasks = [...prevTasks];
+        nextTasks[index] = task;
+        return nextTasks;
+      });
+    }
+
+    return task;
+  }, [queryClient, taskRefs]);
+
+  const isCurrentLoaded = !!tasks[currentIndex];
+
+  // Once the current task is shown, load the next ones in the background
+  useEffect(() => {
+    if (!taskRefs || !isCurrentLoaded) return;
+
+    const lastIndex = Math.min(currentIndex + prefetchCount, taskRefs.length - 1);
+    for (let index = currentIndex + 1; index <= lastIndex; index++) {
+      loadTask(index).catch((error) => {
+        // The task is fetched again if the user navigates to it
+        console.warn(`Failed to prefetch task at index ${index}:`, error);
+      });
+    }
+  }, [taskRefs, currentIndex, isCurrentLoaded, prefetchCount, loadTask]);
+
+  return { tasks, loadTask };
+};
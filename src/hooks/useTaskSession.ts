@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { TaskAnswerResult } from '../api/taskService';
+
+export const TASK_SESSION_STORAGE_KEY = 'task_session';
+
+/**
+ * Practice checks each answer as it is submitted; exam collects answers and checks them in one batch
+ */
+export type TaskSessionMode = 'practice' | 'exam';
+
+/**
+ * Progress through a task set, saved so the set can be resumed later
+ */
+export interface TaskSessionProgress {
+  currentTaskIndex: number;
+  answers: Record<string, unknown>; // Submitted answer per task ID
+  results: Record<string, TaskAnswerResult>; // Server verdict per task ID
+  completedAt?: number; // Set once the learner finishes the last task (or submits the exam)
+  updatedAt: number;
+}
+
+const emptyProgress = (): TaskSessionProgress => ({
+  currentTaskIndex: 0,
+  answers: {},
+  results: {},
+  updatedAt: Date.now()
+});
+
+// Sessions are kept per tenant and user so shared browsers don't mix progress
+const sessionStorageKey = (tenantSlug: string, userId: string, taskSetId: string, mode: TaskSessionMode) =>
+  `${TASK_SESSION_STORAGE_KEY}:${tenantSlug}:${userId}:${taskSetId}${mode === 'exam' ? ':exam' : ''}`;
+
+const loadProgress = (key: string): TaskSessionProgress | null => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as TaskSessionProgress;
+  } catch (error) {
+    console.error('Failed to parse task session:', error);
+    localStorage.removeItem(key);
+    return null;
+  }
+};
+
+/**
+ * Track and persist the current position, answers and results of a task set.
+ * A previously saved session is exposed as `savedSession` until the user
+ * chooses to resume or restart it; nothing is written before that choice.
+ */
+export const useTaskSession = (taskSetId: string | undefined, mode: TaskSessionMode = 'practice') => {
+  const { user, tenantSlug } = useAuth();
+  const slug = user?.tenantSlug || tenantSlug;
+  const storageKey = taskSetId && user?.id && slug ? sessionStorageKey(slug, user.id, taskSetId, mode) : null;
+
+  const [progress, setProgress] = useState<TaskSessionProgress>(emptyProgress);
+  const [savedSession, setSavedSession] = useState<TaskSessionProgress | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+
+  // Look for a saved session whenever the task set (or signed-in user) changes
+  useEffect(() => {
+    setProgress(emptyProgress());
+    setIsRestored(false);
+
+    if (!storageKey) {
+      setSavedSession(null);
+      return;
+    }
+
+    const stored = loadProgress(storageKey);
+    const hasProgress = stored && (stored.currentTaskIndex > 0 || Object.keys(stored.answers || {}).length > 0);
+    setSavedSession(hasProgress ? stored : null);
+    setIsRestored(!hasProgress);
+  }, [storageKey]);
+
+  // Persist progress once the saved session has been resumed or discarded
+  useEffect(() => {
+    if (!storageKey || !isRestored) return;
+    localStorage.setItem(storageKey, JSON.stringify(progress));
+  }, [storageKey, isRestored, progress]);
+
+  const resume = useCallback((): TaskSessionProgress | null => {
+    if (savedSession) {
+      setProgress({
+        ...emptyProgress(),
+        ...savedSession,
+        answers: savedSession.answers || {},
+        results: savedSession.results || {}
+      });
+    }
+    setSavedSession(null);
+    setIsRestored(true);
+    return savedSession;
+  }, [savedSession]);
+
+  const restart = useCallback(() => {
+    if (storageKey) {
+      localStorage.removeItem(storageKey);
+    }
+    setProgress(emptyProgress());
+    setSavedSession(null);
+    setIsRestored(true);
+  }, [storageKey]);
+
+  const markCompleted = useCallback(() => {
+    setProgress(prev => ({ ...prev, completedAt: prev.completedAt || Date.now(), updatedAt: Date.now() }));
+  }, []);
+
+  const setCurrentTaskIndex = useCallback((index: number) => {
+    setProgress(prev => ({ ...prev, currentTaskIndex: index, updatedAt: Date.now() }));
+  }, []);
+
+  const recordAnswer = useCallback((taskId: string, answer: unknown, result: TaskAnswerResult) => {
+    setProgress(prev => ({
+      ...prev,
+      answers: { ...prev.answers, [taskId]: answer },
+      results: { ...prev.results, [taskId]: result },
+      updatedAt: Date.now()
+    }));
+  }, []);
+
+  // Exam mode: keep an answer without a result until the set is submitted
+  const recordDraftAnswer = useCallback((taskId: string, answer: unknown) => {
+    setProgress(prev => ({
+      ...prev,
+      answers: { ...prev.answers, [taskId]: answer },
+      updatedAt: Date.now()
+    }));
+  }, []);
+
+  // Exam mode: store the results of a batch submission
+  const recordResults = useCallback((taskResults: TaskAnswerResult[]) => {
+    setProgress(prev => {
+      const results = { ...prev.results };
+      taskResults.forEach(result => {
+        if (result.task_id) {
+          results[result.task_id] = result;
+        }
+      });
+      return { ...prev, results, updatedAt: Date.now() };
+    });
+  }, []);
+
+  return {
+    currentTaskIndex: progress.currentTaskIndex,
+    answers: progress.answers,
+    results: progress.results,
+    isCompleted: !!progress.completedAt,
+    savedSession,
+    setCurrentTaskIndex,
+    recordAnswer,
+    recordDraftAnswer,
+    recordResults,
+    markCompleted,
+    resume,
+    restart
+  };
+};
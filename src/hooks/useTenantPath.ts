@@ -0,0 +1,18 @@
+import { useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+
+/**
+ * Hook returning a function that prefixes an app path with the current tenant slug,
+ * e.g. `/dashboard` becomes `/acme/dashboard`
+ */
+export const useTenantPath = () => {
+  const { slug } = useParams<{ slug?: string }>();
+  const { tenantSlug } = useAuth();
+  const activeSlug = slug || tenantSlug;
+
+  return useCallback(
+    (path: string) => (activeSlug ? `/${activeSlug}${path}` : path),
+    [activeSlug]
+  );
+};
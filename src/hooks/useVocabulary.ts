@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { listVocabulary, subscribeToVocabulary, VocabularyEntry } from '../api/vocabularyNotebook';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Saved words of the signed-in user, kept up to date as words are saved or removed
+ */
+export const useVocabulary = () => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<VocabularyEntry[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setEntries(listVocabulary());
+    refresh();
+    return subscribeToVocabulary(refresh);
+  }, [user?.id]);
+
+  return { entries };
+};
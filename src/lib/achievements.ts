@@ -0,0 +1,126 @@
+/**
+ * Experience points, levels and badges. XP is the sum of the best score the
+ * server gave each task; badges are earned from scores, answers and the goal
+ * streak.
+ */
+
+export interface TaskSetScoreRecord {
+  maxScore: number
+  scored: number
+  taskScores: Record<string, number> // Score by task id
+}
+
+export interface AchievementStats {
+  xp: number
+  level: number
+  answeredTasks: number
+  correctAnswers: number
+  correctByTaskType: Record<string, number> // Distinct tasks answered correctly, by task type
+  perfectSets: number
+  longestStreak: number // Days in a row the daily goal was met
+}
+
+export interface Badge {
+  id: string
+  title: string
+  description: string
+  // How far the learner is towards the badge; earned once value reaches target
+  getProgress: (stats: AchievementStats) => { value: number; target: number }
+}
+
+// XP needed to go from level n to n + 1 grows by this much per level
+const XP_PER_LEVEL_STEP = 100
+
+export const BADGES: Badge[] = [
+  {
+    id: "first-answer",
+    title: "First steps",
+    description: "Answer your first task",
+    getProgress: (stats) => ({ value: stats.answeredTasks, target: 1 })
+  },
+  {
+    id: "first-perfect-set",
+    title: "Flawless",
+    description: "Score full marks on a task set",
+    getProgress: (stats) => ({ value: stats.perfectSets, target: 1 })
+  },
+  {
+    id: "five-perfect-sets",
+    title: "Perfectionist",
+    description: "Score full marks on 5 task sets",
+    getProgress: (stats) => ({ value: stats.perfectSets, target: 5 })
+  },
+  {
+    id: "speak-word-10",
+    title: "Clear speaker",
+    description: "Get 10 speak word tasks correct",
+    getProgress: (stats) => ({ value: stats.correctByTaskType.speak_word || 0, target: 10 })
+  },
+  {
+    id: "correct-100",
+    title: "Century",
+    description: "Answer 100 tasks correctly",
+    getProgress: (stats) => ({ value: stats.correctAnswers, target: 100 })
+  },
+  {
+    id: "streak-7",
+    title: "Week warrior",
+    description: "Meet your daily goal 7 days in a row",
+    getProgress: (stats) => ({ value: stats.longestStreak, target: 7 })
+  },
+  {
+    id: "streak-30",
+    title: "Habit formed",
+    description: "Meet your daily goal 30 days in a row",
+    getProgress: (stats) => ({ value: stats.longestStreak, target: 30 })
+  },
+  {
+    id: "level-5",
+    title: "Rising star",
+    description: "Reach level 5",
+    getProgress: (stats) => ({ value: stats.level, target: 5 })
+  }
+]
+
+/**
+ * XP from the task set scores, counting each task's best score once
+ */
+export function getXp(scores: Record<string, TaskSetScoreRecord>): number {
+  return Object.values(scores).reduce(
+    (total, record) => total + Object.values(record.taskScores).reduce((sum, score) => sum + Math.max(score, 0), 0),
+    0
+  )
+}
+
+/**
+ * XP needed to reach a level; level 1 starts at 0 XP
+ */
+export function getLevelThreshold(level: number): number {
+  return (XP_PER_LEVEL_STEP * (level - 1) * level) / 2
+}
+
+/**
+ * Level for an amount of XP, with the XP range of that level
+ */
+export function getLevel(xp: number): { level: number; levelXp: number; nextLevelXp: number } {
+  let level = 1
+  while (xp >= getLevelThreshold(level + 1)) level += 1
+  return { level, levelXp: getLevelThreshold(level), nextLevelXp: getLevelThreshold(level + 1) }
+}
+
+/**
+ * Whether a task set was scored full marks
+ */
+export function isPerfectSet(record: TaskSetScoreRecord): boolean {
+  return record.maxScore > 0 && record.scored >= record.maxScore
+}
+
+/**
+ * Badges earned with the given stats
+ */
+export function getEarnedBadges(stats: AchievementStats): Badge[] {
+  return BADGES.filter((badge) => {
+    const { value, target } = badge.getProgress(stats)
+    return value >= target
+  })
+}
@@ -0,0 +1,209 @@
+// Pitch is tracked on audio downsampled to roughly this rate, plenty for speech
+const ANALYSIS_SAMPLE_RATE = 16000
+const FRAME_SIZE = 1024
+const HOP_SIZE = 256
+
+// Human speaking pitch range
+const MIN_PITCH_HZ = 75
+const MAX_PITCH_HZ = 500
+
+// A frame counts as speech when it is at least this loud relative to the loudest frame
+const SPEECH_LEVEL = 0.1
+// ...and as voiced when its autocorrelation peak is at least this strong
+const VOICING_THRESHOLD = 0.5
+
+// Longer recordings are cut to keep the analysis quick
+const MAX_ANALYSIS_SECONDS = 15
+
+// Contours are resampled to this many points before being compared
+const CONTOUR_POINTS = 50
+
+/**
+ * Pitch and timing of one recording
+ */
+export interface AudioAnalysis {
+  duration: number // Whole file, in seconds
+  speechStart: number // First and last loud frame, in seconds
+  speechEnd: number
+  speechDuration: number
+  frameDuration: number // Seconds between pitch contour points
+  pitchContour: (number | null)[] // Hz per frame, null where unvoiced
+}
+
+/**
+ * How a learner's recording compares with the reference
+ */
+export interface PronunciationComparison {
+  reference: AudioAnalysis
+  recording: AudioAnalysis
+  durationRatio: number // Learner speech duration / reference speech duration
+  pitchSimilarity: number | null // Correlation of the two intonation curves, -1..1; null without enough voiced speech
+}
+
+/**
+ * Fetch and decode an audio file into raw samples
+ */
+export async function decodeAudio(url: string): Promise<AudioBuffer> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load audio (${response.status})`)
+  }
+  const data = await response.arrayBuffer()
+
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext
+  const context = new AudioContextClass()
+  try {
+    return await context.decodeAudioData(data)
+  } finally {
+    context.close()
+  }
+}
+
+/**
+ * Mix down to mono and keep every n-th sample, so the result is close to ANALYSIS_SAMPLE_RATE
+ */
+function downsample(buffer: AudioBuffer): { samples: Float32Array; sampleRate: number } {
+  const step = Math.max(1, Math.floor(buffer.sampleRate / ANALYSIS_SAMPLE_RATE))
+  const length = Math.min(buffer.length, Math.floor(buffer.sampleRate * MAX_ANALYSIS_SECONDS))
+  const samples = new Float32Array(Math.floor(length / step))
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] += data[i * step] / buffer.numberOfChannels
+    }
+  }
+  return { samples, sampleRate: buffer.sampleRate / step }
+}
+
+function rms(frame: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i]
+  return Math.sqrt(sum / frame.length)
+}
+
+/**
+ * Pitch of one frame by autocorrelation, or null if the frame isn't clearly voiced
+ */
+function detectPitch(frame: Float32Array, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ)
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), frame.length - 1)
+
+  let energy = 0
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i]
+  if (energy === 0) return null
+
+  let bestLag = 0
+  let bestCorrelation = 0
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0
+    for (let i = 0; i < frame.length - lag; i++) correlation += frame[i] * frame[i + lag]
+    correlation /= energy
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation
+      bestLag = lag
+    }
+  }
+
+  return bestCorrelation >= VOICING_THRESHOLD && bestLag > 0 ? sampleRate / bestLag : null
+}
+
+/**
+ * Speech span and pitch contour of a decoded recording
+ */
+export function analyzeAudio(buffer: AudioBuffer): AudioAnalysis {
+  const { samples, sampleRate } = downsample(buffer)
+  const frameDuration = HOP_SIZE / sampleRate
+
+  const levels: number[] = []
+  const pitches: (number | null)[] = []
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+    const frame = samples.subarray(start, start + FRAME_SIZE)
+    levels.push(rms(frame))
+    pitches.push(detectPitch(frame, sampleRate))
+  }
+
+  const loudest = Math.max(0, ...levels)
+  const isSpeech = (index: number) => loudest > 0 && levels[index] >= loudest * SPEECH_LEVEL
+  const first = levels.findIndex((_, index) => isSpeech(index))
+  let last = levels.length - 1
+  while (last > first && !isSpeech(last)) last--
+
+  const speechStart = first >= 0 ? first * frameDuration : 0
+  const speechEnd = first >= 0 ? (last * HOP_SIZE + FRAME_SIZE) / sampleRate : 0
+
+  return {
+    duration: buffer.duration,
+    speechStart,
+    speechEnd,
+    speechDuration: speechEnd - speechStart,
+    frameDuration,
+    // Pitch outside the speech span is background noise
+    pitchContour: pitches.map((pitch, index) => (isSpeech(index) ? pitch : null))
+  }
+}
+
+/**
+ * Voiced part of a contour in semitones relative to its median, so a higher or
+ * lower voice than the reference speaker doesn't count as a difference
+ */
+function relativeContour(contour: (number | null)[]): number[] {
+  const voiced = contour.filter((pitch): pitch is number => pitch !== null)
+  if (voiced.length === 0) return []
+  const median = [...voiced].sort((a, b) => a - b)[Math.floor(voiced.length / 2)]
+  return voiced.map(pitch => 12 * Math.log2(pitch / median))
+}
+
+/**
+ * Linear resampling of a curve to a fixed number of points
+ */
+function resample(values: number[], points: number = CONTOUR_POINTS): number[] {
+  if (values.length === 0) return []
+  if (values.length === 1) return new Array(points).fill(values[0])
+  return Array.from({ length: points }, (_, index) => {
+    const position = (index / (points - 1)) * (values.length - 1)
+    const lower = Math.floor(position)
+    const upper = Math.min(lower + 1, values.length - 1)
+    return values[lower] + (values[upper] - values[lower]) * (position - lower)
+  })
+}
+
+function correlation(a: number[], b: number[]): number | null {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  const meanA = mean(a)
+  const meanB = mean(b)
+  let covariance = 0
+  let varianceA = 0
+  let varianceB = 0
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB)
+    varianceA += (a[i] - meanA) ** 2
+    varianceB += (b[i] - meanB) ** 2
+  }
+  // A flat contour has no shape to compare
+  if (varianceA === 0 || varianceB === 0) return null
+  return covariance / Math.sqrt(varianceA * varianceB)
+}
+
+/**
+ * Intonation curve of a recording, in semitones relative to the speaker's median pitch
+ */
+export function getRelativePitchCurve(analysis: AudioAnalysis, points: number = CONTOUR_POINTS): number[] {
+  return resample(relativeContour(analysis.pitchContour), points)
+}
+
+/**
+ * Compare the timing and intonation of a learner's recording with the reference
+ */
+export function comparePronunciation(reference: AudioAnalysis, recording: AudioAnalysis): PronunciationComparison {
+  const referenceCurve = relativeContour(reference.pitchContour)
+  const recordingCurve = relativeContour(recording.pitchContour)
+  // Too few voiced frames to say anything about intonation
+  const enoughPitch = referenceCurve.length >= 5 && recordingCurve.length >= 5
+
+  return {
+    reference,
+    recording,
+    durationRatio: reference.speechDuration > 0 ? recording.speechDuration / reference.speechDuration : 1,
+    pitchSimilarity: enoughPitch ? correlation(resample(referenceCurve), resample(recordingCurve)) : null
+  }
+}
@@ -0,0 +1,116 @@
+import { shiftDay, toDayKey } from "./practiceStats"
+
+/**
+ * Daily practice goals and the streak of days they were met. A missed day
+ * uses up a streak freeze when one is available instead of ending the streak;
+ * freezes are earned by keeping the streak going.
+ */
+
+export type GoalMetric = "tasks" | "minutes"
+
+export interface DailyGoal {
+  metric: GoalMetric
+  target: number
+}
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { metric: "tasks", target: 10 }
+
+export const STARTING_STREAK_FREEZES = 1
+export const MAX_STREAK_FREEZES = 2
+// Days in a row the goal has to be met to earn another freeze
+export const DAYS_PER_STREAK_FREEZE = 7
+
+// Days looked back over when a streak is evaluated for the first time
+const MAX_EVALUATED_DAYS = 365
+
+export interface StreakState {
+  current: number // Goal days in a row up to yesterday; frozen days bridge gaps without counting
+  longest: number
+  freezes: number // Available streak freezes
+  frozenDays: string[] // Missed days covered by a freeze, yyyy-MM-dd
+  daysTowardFreeze: number // Goal days since the last freeze was earned
+  lastEvaluatedDay?: string // Days up to and including this one are settled
+}
+
+export function initialStreakState(): StreakState {
+  return {
+    current: 0,
+    longest: 0,
+    freezes: STARTING_STREAK_FREEZES,
+    frozenDays: [],
+    daysTowardFreeze: 0
+  }
+}
+
+export interface DayProgress {
+  value: number // Tasks answered or minutes practiced
+  target: number
+  met: boolean
+}
+
+/**
+ * Progress towards the goal on one day
+ */
+export function getDayProgress(
+  goal: DailyGoal,
+  answersByDay: Record<string, number>,
+  secondsByDay: Record<string, number>,
+  day: string
+): DayProgress {
+  const value = goal.metric === "tasks"
+    ? answersByDay[day] || 0
+    : Math.floor((secondsByDay[day] || 0) / 60)
+  return { value, target: goal.target, met: value >= goal.target }
+}
+
+/**
+ * Settle every day since the last evaluation up to yesterday: extend the
+ * streak on goal days, spend a freeze on missed ones, or reset it.
+ * @param isGoalMet Whether the goal was met on a day
+ * @param firstActiveDay Earliest day with any practice, where a first evaluation starts
+ */
+export function evaluateStreak(
+  state: StreakState,
+  isGoalMet: (day: string) => boolean,
+  firstActiveDay: string | undefined,
+  now: number = Date.now()
+): StreakState {
+  const yesterday = shiftDay(toDayKey(now), -1)
+  const earliest = shiftDay(yesterday, -(MAX_EVALUATED_DAYS - 1))
+
+  let day = state.lastEvaluatedDay ? shiftDay(state.lastEvaluatedDay, 1) : firstActiveDay
+  if (!day || day > yesterday) return state
+  if (day < earliest) day = earliest
+
+  const next: StreakState = { ...state, frozenDays: [...state.frozenDays] }
+  for (; day <= yesterday; day = shiftDay(day, 1)) {
+    if (isGoalMet(day)) {
+      next.current += 1
+      next.daysTowardFreeze += 1
+      if (next.daysTowardFreeze >= DAYS_PER_STREAK_FREEZE) {
+        next.freezes = Math.min(MAX_STREAK_FREEZES, next.freezes + 1)
+        next.daysTowardFreeze = 0
+      }
+    } else if (next.current > 0 && next.freezes > 0) {
+      next.freezes -= 1
+      next.frozenDays.push(day)
+    } else {
+      next.current = 0
+      next.daysTowardFreeze = 0
+    }
+    next.longest = Math.max(next.longest, next.current)
+    next.lastEvaluatedDay = day
+  }
+
+  // Only recent frozen days are shown
+  next.frozenDays = next.frozenDays.slice(-30)
+  return next
+}
+
+/**
+ * Streak as shown today: the settled streak plus today once its goal is met
+ */
+export function getDisplayedStreak(state: StreakState, todayMet: boolean): { current: number; longest: number } {
+  const current = state.current + (todayMet ? 1 : 0)
+  return { current, longest: Math.max(state.longest, current) }
+}
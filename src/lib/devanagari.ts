@@ -0,0 +1,41 @@
+const NUKTA = "\u093C"
+const CHANDRABINDU = "\u0901"
+const ANUSVARA = "\u0902"
+const ZERO_WIDTH_JOINERS = /[\u200C\u200D]/g
+const DEVANAGARI = /[\u0900-\u097F]/
+
+// Danda, double danda and common Latin punctuation typed alongside Devanagari
+const PUNCTUATION = /[\u0964\u0965.,!?;:"'()\-–—]/g
+
+/**
+ * Normalize Devanagari text so spelling variants that learners (and keyboards)
+ * produce interchangeably compare equal:
+ * - Unicode NFC, which also splits precomposed nukta letters (क़, ड़ …) into letter + nukta
+ * - nukta dropped
+ * - chandrabindu treated as anusvara
+ * - zero-width joiners removed
+ */
+export function normalizeDevanagari(text: string): string {
+  return text
+    .normalize("NFC")
+    .split(NUKTA).join("")
+    .split(CHANDRABINDU).join(ANUSVARA)
+    .replace(ZERO_WIDTH_JOINERS, "")
+}
+
+/**
+ * Split a sentence into words, dropping punctuation
+ */
+export function tokenizeWords(text: string): string[] {
+  return text
+    .replace(PUNCTUATION, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+/**
+ * Whether the text contains any Devanagari characters
+ */
+export function containsDevanagari(text: string): boolean {
+  return DEVANAGARI.test(text)
+}
@@ -0,0 +1,97 @@
+/**
+ * Statistics over the practice history: accuracy per day and task type and
+ * practice minutes
+ */
+
+export interface AnswerRecord {
+  taskType: string
+  isCorrect: boolean
+  answeredAt: number
+}
+
+export interface AccuracyPoint {
+  answered: number
+  correct: number
+  accuracy: number | null // Percent, null without answers
+}
+
+function toAccuracy(answered: number, correct: number): AccuracyPoint {
+  return { answered, correct, accuracy: answered > 0 ? Math.round((correct / answered) * 100) : null }
+}
+
+/**
+ * Local calendar day of a timestamp, as yyyy-MM-dd
+ */
+export function toDayKey(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Every day from `from` to `to`, inclusive, as yyyy-MM-dd
+ */
+export function listDayKeys(from: Date, to: Date): string[] {
+  const days: string[] = []
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  while (date <= to) {
+    days.push(toDayKey(date.getTime()))
+    date.setDate(date.getDate() + 1)
+  }
+  return days
+}
+
+/**
+ * Answers and accuracy for each of `days`
+ */
+export function getDailyAccuracy(answers: AnswerRecord[], days: string[]): Array<AccuracyPoint & { day: string }> {
+  const totals = new Map<string, { answered: number; correct: number }>()
+  answers.forEach((answer) => {
+    const day = toDayKey(answer.answeredAt)
+    const total = totals.get(day) || { answered: 0, correct: 0 }
+    total.answered += 1
+    if (answer.isCorrect) total.correct += 1
+    totals.set(day, total)
+  })
+
+  return days.map((day) => {
+    const total = totals.get(day) || { answered: 0, correct: 0 }
+    return { day, ...toAccuracy(total.answered, total.correct) }
+  })
+}
+
+/**
+ * Answers and accuracy per task type, most practiced first
+ */
+export function getAccuracyByTaskType(answers: AnswerRecord[]): Array<AccuracyPoint & { taskType: string }> {
+  const totals = new Map<string, { answered: number; correct: number }>()
+  answers.forEach((answer) => {
+    const total = totals.get(answer.taskType) || { answered: 0, correct: 0 }
+    total.answered += 1
+    if (answer.isCorrect) total.correct += 1
+    totals.set(answer.taskType, total)
+  })
+
+  return Array.from(totals.entries())
+    .map(([taskType, total]) => ({ taskType, ...toAccuracy(total.answered, total.correct) }))
+    .sort((a, b) => b.answered - a.answered)
+}
+
+/**
+ * Whole minutes practiced on each of `days`
+ */
+export function getDailyPracticeMinutes(
+  secondsByDay: Record<string, number>,
+  days: string[]
+): Array<{ day: string; minutes: number }> {
+  return days.map((day) => ({ day, minutes: Math.round((secondsByDay[day] || 0) / 60) }))
+}
+
+/**
+ * The day `offset` days before or after a yyyy-MM-dd day
+ */
+export function shiftDay(day: string, offset: number): string {
+  const [year, month, date] = day.split("-").map(Number)
+  return toDayKey(new Date(year, month - 1, date + offset).getTime())
+}
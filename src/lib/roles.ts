@@ -0,0 +1,22 @@
+/**
+ * Role restrictions on routes, checked against `UserData.role`
+ */
+
+/**
+ * Roles from a comma-separated env value; undefined when none are set, which
+ * leaves the route open to every signed-in user
+ */
+export function parseRoles(value: string | undefined): string[] | undefined {
+  const roles = (value || "").split(",").map((role) => role.trim()).filter(Boolean)
+  return roles.length > 0 ? roles : undefined
+}
+
+// Roles allowed to record audio and create task sets from it (VITE_RECORDING_ROLES)
+export const RECORDING_ROLES = parseRoles(import.meta.env.VITE_RECORDING_ROLES)
+
+/**
+ * Whether a role passes a restriction; no restriction lets every role through
+ */
+export function hasAllowedRole(role: string | undefined, allowedRoles?: string[]): boolean {
+  return !allowedRoles || (!!role && allowedRoles.includes(role))
+}
@@ -0,0 +1,147 @@
+/**
+ * SM-2 spaced-repetition scheduling. Each card tracks how well a task has
+ * been remembered; answering it well pushes its next review further out,
+ * missing it brings it back the next day.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const INITIAL_EASE_FACTOR = 2.5
+const MIN_EASE_FACTOR = 1.3
+
+// Answers graded below this count as forgotten and restart the card
+const PASSING_QUALITY = 3
+
+/**
+ * Recall grade of one answer, from 0 (blackout) to 5 (perfect)
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5
+
+export interface ReviewCard {
+  taskId: string
+  taskSetId?: string
+  taskType: string
+  repetitions: number // Successful reviews in a row
+  interval: number // Days until the next review
+  easeFactor: number
+  dueAt: number
+  lapses: number // Times the task was missed
+  addedAt: number
+  lastReviewedAt: number
+}
+
+/**
+ * Start of the local day containing `time`
+ */
+export function startOfDay(time: number): number {
+  const date = new Date(time)
+  date.setHours(0, 0, 0, 0)
+  return date.getTime()
+}
+
+/**
+ * Grade an answer for scheduling. The server only says whether an answer was
+ * right, with a score for partially correct ones.
+ * @param score Score of the answer, when the task awards partial credit
+ * @param maxScore Best possible score of the task
+ */
+export function getAnswerQuality(isCorrect: boolean, score?: number, maxScore?: number): ReviewQuality {
+  if (isCorrect) return 4
+  if (score !== undefined && maxScore && score > 0) {
+    return score / maxScore >= 0.5 ? 2 : 1
+  }
+  return 1
+}
+
+/**
+ * A new card for a task, due for its first review
+ */
+export function createReviewCard(
+  card: Pick<ReviewCard, "taskId" | "taskSetId" | "taskType">,
+  now: number = Date.now()
+): ReviewCard {
+  return {
+    ...card,
+    repetitions: 0,
+    interval: 0,
+    easeFactor: INITIAL_EASE_FACTOR,
+    dueAt: now,
+    lapses: 0,
+    addedAt: now,
+    lastReviewedAt: now
+  }
+}
+
+/**
+ * Schedule the next review of a card after an answer graded `quality`
+ */
+export function scheduleReview(card: ReviewCard, quality: ReviewQuality, now: number = Date.now()): ReviewCard {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  let repetitions: number
+  let interval: number
+  let lapses = card.lapses
+
+  if (quality < PASSING_QUALITY) {
+    // Forgotten: learn it again from tomorrow
+    repetitions = 0
+    interval = 1
+    lapses += 1
+  } else {
+    repetitions = card.repetitions + 1
+    if (repetitions === 1) {
+      interval = 1
+    } else if (repetitions === 2) {
+      interval = 6
+    } else {
+      interval = Math.round(card.interval * easeFactor)
+    }
+  }
+
+  return {
+    ...card,
+    repetitions,
+    interval,
+    easeFactor,
+    lapses,
+    // Reviews fall due at the start of the day so the daily deck doesn't depend on the time of the last answer
+    dueAt: startOfDay(now) + interval * DAY_MS,
+    lastReviewedAt: now
+  }
+}
+
+/**
+ * Whether a card should be reviewed on the day containing `now`
+ */
+export function isReviewDue(card: ReviewCard, now: number = Date.now()): boolean {
+  return card.dueAt < startOfDay(now) + DAY_MS
+}
+
+/**
+ * Pick up to `limit` due cards, most overdue first, alternating between task
+ * sets so one set doesn't fill the whole deck
+ */
+export function buildReviewDeck(cards: ReviewCard[], limit: number, now: number = Date.now()): ReviewCard[] {
+  const bySet = new Map<string, ReviewCard[]>()
+  cards
+    .filter((card) => isReviewDue(card, now))
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .forEach((card) => {
+      const key = card.taskSetId || ""
+      bySet.set(key, [...(bySet.get(key) || []), card])
+    })
+
+  const queues = Array.from(bySet.values())
+  const deck: ReviewCard[] = []
+  while (deck.length < limit && queues.some((queue) => queue.length > 0)) {
+    queues.forEach((queue) => {
+      if (queue.length > 0 && deck.length < limit) {
+        deck.push(queue.shift())
+      }
+    })
+  }
+  return deck
+}
@@ -0,0 +1,23 @@
+import type { Task } from "@/api/taskService"
+
+/**
+ * Get the ID of a task whether it is referenced by ID or included in full
+ */
+export function getTaskId(taskRef: Task | string | undefined): string | undefined {
+  if (!taskRef) return undefined
+  return typeof taskRef === "string" ? taskRef : taskRef.id || taskRef._id
+}
+
+/**
+ * Format a submitted answer for display
+ */
+export function formatAnswer(answer: unknown): string {
+  if (answer === undefined || answer === null || answer === "") return "—"
+  if (Array.isArray(answer)) return answer.map(formatAnswer).join(", ")
+  if (typeof answer === "object") {
+    // Audio answers are submitted as a reference to the uploaded recording
+    if ("object_name" in answer) return "Audio recording"
+    return JSON.stringify(answer)
+  }
+  return String(answer)
+}
@@ -0,0 +1,79 @@
+import { TenantConfig, TenantTheme } from "@/types/Tenant"
+
+/**
+ * CSS variables set for each tenant theme color. Variables hold bare
+ * "H S% L%" channels so Tailwind can apply opacity modifiers.
+ */
+const THEME_VARIABLES: Record<keyof TenantTheme, string[]> = {
+  primary: ["--nepali-red", "--primary", "--ring"],
+  secondary: ["--nepali-orange", "--secondary"],
+  accent: ["--nepali-blue"],
+  dark: ["--nepali-maroon"],
+}
+
+/**
+ * Convert a #rgb or #rrggbb color to "H S% L%" channels, or null if it can't be parsed
+ */
+export function hexToHslChannels(hex: string): string | null {
+  let value = hex.trim().replace(/^#/, "")
+  if (value.length === 3) {
+    value = value.split("").map((c) => c + c).join("")
+  }
+  if (!/^[0-9a-f]{6}$/i.test(value)) return null
+
+  const r = parseInt(value.slice(0, 2), 16) / 255
+  const g = parseInt(value.slice(2, 4), 16) / 255
+  const b = parseInt(value.slice(4, 6), 16) / 255
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  let h = 0
+  let s = 0
+
+  if (max !== min) {
+    const d = max - min
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+    if (max === r) h = (g - b) / d + (g < b ? 6 : 0)
+    else if (max === g) h = (b - r) / d + 2
+    else h = (r - g) / d + 4
+    h *= 60
+  }
+
+  const round = (n: number) => Math.round(n * 10) / 10
+  return `${round(h)} ${round(s * 100)}% ${round(l * 100)}%`
+}
+
+/**
+ * Apply a tenant's branding to the document
+ * @returns A function restoring the stylesheet defaults
+ */
+export function applyTenantTheme(tenant: TenantConfig): () => void {
+  const root = document.documentElement
+  const applied: string[] = []
+
+  Object.entries(tenant.theme).forEach(([key, color]) => {
+    const channels = color ? hexToHslChannels(color) : null
+    if (!channels) return
+
+    THEME_VARIABLES[key as keyof TenantTheme].forEach((variable) => {
+      root.style.setProperty(variable, channels)
+      applied.push(variable)
+    })
+  })
+
+  if (tenant.loginBackgroundUrl) {
+    root.style.setProperty("--login-background", `url("${tenant.loginBackgroundUrl}")`)
+    applied.push("--login-background")
+  }
+
+  const previousLang = root.lang
+  const previousTitle = document.title
+  root.lang = tenant.defaultLanguage
+  document.title = tenant.displayName
+
+  return () => {
+    applied.forEach((variable) => root.style.removeProperty(variable))
+    root.lang = previousLang
+    document.title = previousTitle
+  }
+}
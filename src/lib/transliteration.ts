@@ -0,0 +1,282 @@
+/**
+ * Romanized Nepali → Devanagari, using a forgiving ITRANS-like scheme:
+ * "namaste" → "नमस्ते", "dhanyabaad" → "धन्यबाद", "Thik" → "ठिक",
+ * "kati" → "कति" (or "कती"), "khaana" → "खान" (or "खाना").
+ * Capitals select retroflex letters (T, Th, D, Dh, N, Sh) and R the vowel ऋ;
+ * ambiguous spellings produce alternative candidates.
+ */
+
+const VIRAMA = "्"
+const ANUSVARA = "ं"
+
+// A nasal before these is usually written as anusvara: "sansaar" → "संसार"
+const ANUSVARA_BEFORE = ["स", "श", "ष", "ह"]
+
+// Each romanization maps to its letters, most likely first
+const CONSONANTS: Record<string, string[]> = {
+  kSh: ["क्ष"], ksh: ["क्ष"], x: ["क्ष"],
+  gy: ["ज्ञ", "ग्य"], gny: ["ज्ञ"],
+  tr: ["त्र"], shr: ["श्र"],
+  chh: ["छ"], Ch: ["छ"], ch: ["च", "छ"], c: ["च"],
+  kh: ["ख"], k: ["क"], q: ["क"],
+  gh: ["घ"], g: ["ग"],
+  ng: ["ङ", "न्ग"],
+  jh: ["झ"], j: ["ज"], z: ["ज"],
+  ny: ["न्य", "ञ"],
+  Th: ["ठ"], T: ["ट"], Dh: ["ढ"], D: ["ड"], N: ["ण"],
+  th: ["थ", "ठ"], t: ["त", "ट"],
+  dh: ["ध", "ढ"], d: ["द", "ड"],
+  n: ["न", "ण"],
+  ph: ["फ"], f: ["फ"], p: ["प"],
+  bh: ["भ"], b: ["ब"],
+  m: ["म"], y: ["य"], r: ["र"], l: ["ल"],
+  v: ["व"], w: ["व"],
+  Sh: ["ष"], sh: ["श", "ष"], s: ["स", "श"],
+  h: ["ह"]
+}
+
+// [independent vowel, vowel sign after a consonant]
+type VowelForms = [string, string]
+
+const VOWELS: Record<string, VowelForms[]> = {
+  aa: [["आ", "ा"]], A: [["आ", "ा"]],
+  ai: [["ऐ", "ै"]], au: [["औ", "ौ"]],
+  ee: [["ई", "ी"]], ii: [["ई", "ी"]], I: [["ई", "ी"]],
+  oo: [["ऊ", "ू"]], uu: [["ऊ", "ू"]], U: [["ऊ", "ू"]],
+  R: [["ऋ", "ृ"]],
+  a: [["अ", ""]],
+  i: [["इ", "ि"], ["ई", "ी"]],
+  u: [["उ", "ु"], ["ऊ", "ू"]],
+  e: [["ए", "े"]],
+  o: [["ओ", "ो"]]
+}
+
+// Signs and punctuation, written as they are
+const MARKS: Record<string, string> = {
+  M: "ं", "~": "ँ", H: "ः", ".": "।", "|": "।",
+  0: "०", 1: "१", 2: "२", 3: "३", 4: "४", 5: "५", 6: "६", 7: "७", 8: "८", 9: "९"
+}
+
+type Token =
+  | { kind: "consonant"; options: string[] }
+  | { kind: "vowel"; options: VowelForms[] }
+  | { kind: "mark"; options: string[] }
+
+const KEYS = [...Object.keys(CONSONANTS), ...Object.keys(VOWELS), ...Object.keys(MARKS)].sort(
+  (a, b) => b.length - a.length
+)
+
+const lookup = (key: string): Token | undefined => {
+  if (CONSONANTS[key]) return { kind: "consonant", options: CONSONANTS[key] }
+  if (VOWELS[key]) return { kind: "vowel", options: VOWELS[key] }
+  if (MARKS[key] !== undefined) return { kind: "mark", options: [MARKS[key]] }
+  return undefined
+}
+
+/**
+ * Split a romanized word into letter tokens, longest match first.
+ * Capitals fall back to lowercase when they have no meaning of their own.
+ */
+function tokenize(word: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < word.length) {
+    let token: Token | undefined
+    let length = 0
+    for (const key of KEYS) {
+      if (word.startsWith(key, i)) {
+        token = lookup(key)
+        length = key.length
+        break
+      }
+    }
+    if (!token) {
+      const lower = word[i].toLowerCase()
+      token = lower !== word[i] ? lookup(lower) : undefined
+      length = 1
+    }
+    tokens.push(token || { kind: "mark", options: [word[i]] })
+    i += length
+  }
+
+  // A final a after a consonant is often a long ा ("khaana" → "खाना")
+  const last = tokens[tokens.length - 1]
+  if (last?.kind === "vowel" && last.options[0][0] === "अ" && tokens[tokens.length - 2]?.kind === "consonant") {
+    last.options = [...last.options, ["आ", "ा"]]
+  }
+
+  return tokens
+}
+
+/**
+ * Write tokens in Devanagari, using the chosen option of each token.
+ * Consonant clusters get a virama; a word-final consonant keeps its inherent vowel.
+ */
+function render(tokens: Token[], choices: number[], useAnusvara = true): string {
+  let output = ""
+  tokens.forEach((token, index) => {
+    const choice = choices[index] || 0
+    const previous = tokens[index - 1]
+    const next = tokens[index + 1]
+
+    if (token.kind === "consonant") {
+      const letter = token.options[choice]
+      const nextLetter = next?.kind === "consonant" ? next.options[choices[index + 1] || 0] : undefined
+      if (useAnusvara && (letter === "न" || letter === "म") && ANUSVARA_BEFORE.includes(nextLetter)) {
+        output += ANUSVARA
+        return
+      }
+      output += letter
+      if (next?.kind === "consonant") output += VIRAMA
+    } else if (token.kind === "vowel") {
+      const [independent, sign] = token.options[choice]
+      output += previous?.kind === "consonant" ? sign : independent
+    } else {
+      output += token.options[choice]
+    }
+  })
+  return output
+}
+
+/**
+ * Transliterate romanized Nepali to Devanagari, word by word.
+ * Text that is already Devanagari passes through unchanged.
+ */
+export function romanToDevanagari(text: string): string {
+  return text.replace(/[A-Za-z~|.0-9]+/g, (word) => render(tokenize(word), []))
+}
+
+/**
+ * Devanagari candidates for a romanized word, best first: the default
+ * spelling, then spellings that swap one ambiguous letter (त/ट, ि/ी, श/ष …),
+ * then the word with a written-out nasal cluster or an explicit final virama.
+ */
+export function getTransliterationCandidates(word: string, limit = 5): string[] {
+  if (!word) return []
+
+  const tokens = tokenize(word)
+  const candidates = [render(tokens, [])]
+
+  tokens.forEach((token, index) => {
+    for (let choice = 1; choice < token.options.length; choice++) {
+      const choices: number[] = []
+      choices[index] = choice
+      candidates.push(render(tokens, choices))
+    }
+  })
+
+  candidates.push(render(tokens, [], false))
+
+  if (tokens[tokens.length - 1]?.kind === "consonant") {
+    candidates.push(candidates[0] + VIRAMA)
+  }
+
+  return Array.from(new Set(candidates)).slice(0, limit)
+}
+
+/**
+ * How Devanagari is written in Latin letters: `iso` is ISO 15919 with
+ * diacritics ("नमस्ते" → "namastē"), `simple` is the plain spelling learners
+ * type ("namaste"), without diacritics and with the silent final a dropped.
+ */
+export type RomanizationScheme = "iso" | "simple"
+
+// [ISO 15919, simplified]
+type Romanizations = [string, string]
+
+const ROMAN_CONSONANTS: Record<string, Romanizations> = {
+  "क": ["k", "k"], "ख": ["kh", "kh"], "ग": ["g", "g"], "घ": ["gh", "gh"], "ङ": ["ṅ", "ng"],
+  "च": ["c", "ch"], "छ": ["ch", "chh"], "ज": ["j", "j"], "झ": ["jh", "jh"], "ञ": ["ñ", "n"],
+  "ट": ["ṭ", "t"], "ठ": ["ṭh", "th"], "ड": ["ḍ", "d"], "ढ": ["ḍh", "dh"], "ण": ["ṇ", "n"],
+  "त": ["t", "t"], "थ": ["th", "th"], "द": ["d", "d"], "ध": ["dh", "dh"], "न": ["n", "n"],
+  "प": ["p", "p"], "फ": ["ph", "ph"], "ब": ["b", "b"], "भ": ["bh", "bh"], "म": ["m", "m"],
+  "य": ["y", "y"], "र": ["r", "r"], "ल": ["l", "l"], "व": ["v", "v"],
+  "श": ["ś", "sh"], "ष": ["ṣ", "sh"], "स": ["s", "s"], "ह": ["h", "h"]
+}
+
+const ROMAN_VOWELS: Record<string, Romanizations> = {
+  "अ": ["a", "a"], "आ": ["ā", "aa"], "इ": ["i", "i"], "ई": ["ī", "i"], "उ": ["u", "u"],
+  "ऊ": ["ū", "u"], "ऋ": ["r̥", "ri"], "ए": ["ē", "e"], "ऐ": ["ai", "ai"], "ओ": ["ō", "o"],
+  "औ": ["au", "au"]
+}
+
+const ROMAN_VOWEL_SIGNS: Record<string, Romanizations> = {
+  "ा": ["ā", "aa"], "ि": ["i", "i"], "ी": ["ī", "i"], "ु": ["u", "u"], "ू": ["ū", "u"],
+  "ृ": ["r̥", "ri"], "े": ["ē", "e"], "ै": ["ai", "ai"], "ो": ["ō", "o"], "ौ": ["au", "au"]
+}
+
+const ROMAN_MARKS: Record<string, Romanizations> = {
+  "ं": ["ṁ", "n"], "ँ": ["m̐", "n"], "ः": ["ḥ", "h"], "ऽ": ["’", ""],
+  "।": [".", "."], "॥": [".", "."]
+}
+
+const NUKTA = "़"
+const DEVANAGARI_RUN = /[\u0900-\u097F]+/g
+const DEVANAGARI_DIGIT_ZERO = 0x0966
+
+/**
+ * Romanize one Devanagari word. Consonants carry an inherent a unless a
+ * virama or vowel sign follows; the simplified scheme drops it at the end of
+ * words of more than one syllable ("नेपाल" → "nepaal", but "छ" → "chha").
+ */
+function romanizeWord(word: string, scheme: RomanizationScheme): string {
+  const column = scheme === "iso" ? 0 : 1
+  let output = ""
+  let inherentA = false
+  let syllables = 0
+  let inCluster = false
+
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i]
+
+    if (char === NUKTA) continue
+
+    if (ROMAN_CONSONANTS[char]) {
+      if (inherentA) output += "a"
+      // ज्ञ is pronounced "gya" in Nepali
+      if (scheme === "simple" && char === "ज" && word[i + 1] === VIRAMA && word[i + 2] === "ञ") {
+        output += "gy"
+        i += 2
+      } else {
+        output += ROMAN_CONSONANTS[char][column]
+      }
+      inCluster = !inherentA && word[i - 1] === VIRAMA
+      inherentA = true
+      syllables++
+    } else if (char === VIRAMA) {
+      inherentA = false
+    } else if (ROMAN_VOWEL_SIGNS[char]) {
+      inherentA = false
+      output += ROMAN_VOWEL_SIGNS[char][column]
+    } else if (ROMAN_VOWELS[char]) {
+      if (inherentA) output += "a"
+      inherentA = false
+      output += ROMAN_VOWELS[char][column]
+      syllables++
+    } else if (ROMAN_MARKS[char]) {
+      if (inherentA) output += "a"
+      inherentA = false
+      // Anusvara sounds as m before p, ph, b, bh and m
+      const labial = "पफबभम".includes(word[i + 1])
+      output += scheme === "simple" && char === ANUSVARA && labial ? "m" : ROMAN_MARKS[char][column]
+    } else {
+      const code = char.charCodeAt(0)
+      if (inherentA) output += "a"
+      inherentA = false
+      output += code >= DEVANAGARI_DIGIT_ZERO && code <= DEVANAGARI_DIGIT_ZERO + 9
+        ? String(code - DEVANAGARI_DIGIT_ZERO)
+        : char
+    }
+  }
+
+  if (inherentA && (scheme === "iso" || syllables < 2 || inCluster)) output += "a"
+  return output
+}
+
+/**
+ * Write Devanagari text in Latin letters, word by word. Anything that isn't
+ * Devanagari passes through unchanged.
+ */
+export function devanagariToRoman(text: string, scheme: RomanizationScheme = "simple"): string {
+  return text.replace(DEVANAGARI_RUN, (word) => romanizeWord(word, scheme))
+}
@@ -0,0 +1,67 @@
+/**
+ * A saved word as written to an export file
+ */
+export interface VocabularyExportRow {
+  word: string
+  romanization: string
+  meaning: string
+  tags: string[]
+  audioUrl?: string
+  taskSetId?: string
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * CSV with a header row, readable by spreadsheets. Starts with a byte order
+ * mark so Excel reads the Devanagari as UTF-8.
+ */
+export function toVocabularyCsv(rows: VocabularyExportRow[]): string {
+  const header = ["word", "romanization", "meaning", "tags", "audio_url", "task_set_id"]
+  const lines = rows.map((row) =>
+    [row.word, row.romanization, row.meaning, row.tags.join(" "), row.audioUrl || "", row.taskSetId || ""]
+      .map(escapeCsvField)
+      .join(",")
+  )
+  return "\uFEFF" + [header.join(","), ...lines].join("\r\n")
+}
+
+function escapeAnkiField(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/[\t\r\n]+/g, " ")
+}
+
+/**
+ * Tab-separated notes for Anki's File > Import: the Devanagari word on the
+ * front, romanization and meaning on the back. The header lines tell Anki the
+ * separator and which column holds the tags.
+ */
+export function toAnkiNotes(rows: VocabularyExportRow[]): string {
+  const header = ["#separator:tab", "#html:true", "#tags column:3"]
+  const notes = rows.map((row) => {
+    const back = [escapeAnkiField(row.romanization), escapeAnkiField(row.meaning)].filter(Boolean).join("<br>")
+    // Anki tags can't contain spaces
+    const tags = row.tags.map((tag) => tag.replace(/\s+/g, "_")).join(" ")
+    return [escapeAnkiField(row.word), back, tags].join("\t")
+  })
+  return [...header, ...notes].join("\n")
+}
+
+/**
+ * Offer text as a file download
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,54 @@
+import { normalizeDevanagari, tokenizeWords } from "@/lib/devanagari"
+
+/**
+ * One word of a diff: `match` appears in both, `missing` only in the expected
+ * text and `extra` only in what the learner typed
+ */
+export interface WordDiffPart {
+  type: "match" | "missing" | "extra"
+  word: string
+}
+
+/**
+ * Word-level diff of a typed sentence against the expected one, based on the
+ * longest common subsequence of normalized words
+ */
+export function diffWords(
+  expected: string,
+  actual: string,
+  normalize: (word: string) => string = normalizeDevanagari
+): WordDiffPart[] {
+  const expectedWords = tokenizeWords(expected)
+  const actualWords = tokenizeWords(actual)
+  const a = expectedWords.map(normalize)
+  const b = actualWords.map(normalize)
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const parts: WordDiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: "match", word: actualWords[j] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      parts.push({ type: "missing", word: expectedWords[i] })
+      i++
+    } else {
+      parts.push({ type: "extra", word: actualWords[j] })
+      j++
+    }
+  }
+  while (i < a.length) parts.push({ type: "missing", word: expectedWords[i++] })
+  while (j < b.length) parts.push({ type: "extra", word: actualWords[j++] })
+
+  return parts
+}
@@ -1,23 +1,7 @@
-
-import React, { useEffect } from "react";
-import { useNavigate } from "react-router-dom";
-import { useAuth } from "@/context/AuthContext";
+import React from "react";
 import Dashboard from "@/components/Dashboard";
 
 const DashboardPage: React.FC = () => {
-  const { isAuthenticated } = useAuth();
-  const navigate = useNavigate();
-  
-  useEffect(() => {
-    if (!isAuthenticated) {
-      navigate("/");
-    }
-  }, [isAuthenticated, navigate]);
-  
-  if (!isAuthenticated) {
-    return null;
-  }
-  
   return <Dashboard />;
 };
 
@@ -1,25 +1,29 @@
 
 import React, { useEffect } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useLocation } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
 import TenantLogin from "@/components/TenantLogin";
 
 const Index: React.FC = () => {
   const { tenantSlug, isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const { slug } = useParams<{ slug?: string }>();
-  
+
+  // Set when the user chose to sign in to another tenant
+  const addTenant = !!(location.state as { addTenant?: boolean } | null)?.addTenant;
+
   useEffect(() => {
-    if (isAuthenticated) {
-      navigate("/dashboard");
+    if (isAuthenticated && tenantSlug && !addTenant) {
+      navigate(`/${tenantSlug}/dashboard`, { replace: true });
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, tenantSlug, addTenant, navigate]);
   
   return (
     <div className="min-h-screen flex flex-col md:flex-row">
       {/* Left side - Login Form */}
       <div className="w-full md:w-1/3 flex items-center justify-center p-4 md:p-8 login-background">
-        <TenantLogin initialSlug={slug || tenantSlug || ""} />
+        <TenantLogin initialSlug={addTenant ? "" : slug || tenantSlug || ""} />
       </div>
       
       {/* Right side - App Showcase */}
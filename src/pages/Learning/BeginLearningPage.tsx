@@ -1,6 +1,5 @@
 
-import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState } from 'react';
 import { useAuth } from '@/context/AuthContext';
 import { SidebarProvider, SidebarTrigger, SidebarInset } from '@/components/ui/sidebar';
 import SideNavigation from '@/components/Navigation/SideNavigation';
@@ -12,21 +11,9 @@ import { Mic, CheckCircle, AlertCircle } from 'lucide-react';
  * Page component for Begin Learning
  */
 const BeginLearningPage: React.FC = () => {
-  const { isAuthenticated, user } = useAuth();
-  const navigate = useNavigate();
+  const { user } = useAuth();
   const [taskSetId, setTaskSetId] = useState<string | undefined>(undefined);
 
-  // Redirect to login if not authenticated
-  useEffect(() => {
-    if (!isAuthenticated) {
-      navigate('/');
-    }
-
-    // Log authentication status for debugging
-    console.log('Authentication status:', isAuthenticated);
-    console.log('User token exists:', user?.token ? 'Yes' : 'No');
-  }, [isAuthenticated, navigate, user]);
-
   // Handle recording completion
   const handleRecordingComplete = (newTaskSetId?: string) => {
     if (newTaskSetId) {
@@ -39,10 +26,6 @@ const BeginLearningPage: React.FC = () => {
     }
   };
 
-  if (!isAuthenticated) {
-    return null;
-  }
-
   return (
     <SidebarProvider>
       <div className="flex min-h-screen w-full bg-gray-50">
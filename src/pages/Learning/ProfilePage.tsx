@@ -0,0 +1,180 @@
+import React from 'react';
+import { format } from 'date-fns';
+import {
+  Award,
+  CheckCircle2,
+  Crown,
+  Flame,
+  Footprints,
+  Lock,
+  Mic,
+  Sparkles,
+  Star,
+  Trophy,
+  User,
+  Zap
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import TaskViewLayout from '../Task/TaskViewLayout';
+import { useAuth } from '../../context/AuthContext';
+import { useAchievements } from '../../hooks/useAchievements';
+
+// Icon per badge id, with a fallback for badges without one
+const BADGE_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  'first-answer': Footprints,
+  'first-perfect-set': Star,
+  'five-perfect-sets': Crown,
+  'speak-word-10': Mic,
+  'correct-100': CheckCircle2,
+  'streak-7': Flame,
+  'streak-30': Trophy,
+  'level-5': Sparkles
+};
+
+/**
+ * The learner's account, level and XP, and a gallery of earned and locked badges
+ */
+const ProfilePage: React.FC = () => {
+  const { user } = useAuth();
+  const { xp, level, levelXp, nextLevelXp, stats, badges } = useAchievements();
+
+  const levelPercent = Math.round(((xp - levelXp) / (nextLevelXp - levelXp)) * 100);
+  const earnedCount = badges.filter(badge => badge.earned).length;
+
+  return (
+    <TaskViewLayout title="My Profile" subtitle="Your level, XP and badges">
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Account */}
+          <Card>
+            <CardContent className="p-6 flex items-center space-x-4">
+              <div className="bg-purple-100 rounded-full p-3">
+                <User className="h-8 w-8 text-purple-700" />
+              </div>
+              <div>
+                <p className="text-lg font-semibold">{user?.username || user?.email}</p>
+                <p className="text-sm text-gray-500">{user?.email}</p>
+                <p className="text-xs text-gray-400">{user?.tenantLabel || user?.tenantSlug}</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Level */}
+          <Card className="md:col-span-2">
+            <CardContent className="p-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <div className="bg-purple-600 text-white rounded-full h-12 w-12 flex items-center justify-center text-xl font-bold">
+                    {level}
+                  </div>
+                  <div>
+                    <p className="text-lg font-semibold">Level {level}</p>
+                    <p className="text-sm text-gray-500 flex items-center">
+                      <Zap className="h-4 w-4 mr-1 text-yellow-500" />
+                      {xp} XP
+                    </p>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {nextLevelXp - xp} XP to level {level + 1}
+                </p>
+              </div>
+              <Progress value={levelPercent} className="h-2" />
+              <p className="text-xs text-gray-500">
+                You earn XP for every point scored on a task. Improving a task's score earns the difference.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-500">Tasks answered</p>
+              <p className="text-xl font-bold">{stats.answeredTasks}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-500">Tasks correct</p>
+              <p className="text-xl font-bold">{stats.correctAnswers}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-500">Perfect task sets</p>
+              <p className="text-xl font-bold">{stats.perfectSets}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-500">Longest streak</p>
+              <p className="text-xl font-bold">
+                {stats.longestStreak} {stats.longestStreak === 1 ? 'day' : 'days'}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Badge gallery */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Award className="h-5 w-5 mr-2 text-purple-600" />
+              Badges
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {earnedCount} of {badges.length}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+              {badges.map(badge => {
+                const Icon = BADGE_ICONS[badge.id] || Award;
+                const value = Math.min(badge.progress.value, badge.progress.target);
+                return (
+                  <div
+                    key={badge.id}
+                    className={cn(
+                      'rounded-lg border p-4 text-center space-y-2',
+                      badge.earned ? 'border-purple-200 bg-purple-50' : 'border-gray-200 bg-gray-50'
+                    )}
+                  >
+                    <div
+                      className={cn(
+                        'mx-auto h-14 w-14 rounded-full flex items-center justify-center',
+                        badge.earned ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-400'
+                      )}
+                    >
+                      {badge.earned ? <Icon className="h-7 w-7" /> : <Lock className="h-6 w-6" />}
+                    </div>
+                    <p className={cn('font-semibold', !badge.earned && 'text-gray-500')}>{badge.title}</p>
+                    <p className="text-xs text-gray-500">{badge.description}</p>
+                    {badge.earned ? (
+                      badge.unlockedAt && (
+                        <p className="text-xs text-purple-700">Unlocked {format(badge.unlockedAt, 'MMM d, yyyy')}</p>
+                      )
+                    ) : (
+                      <div className="space-y-1">
+                        <Progress value={(value / badge.progress.target) * 100} className="h-1.5" />
+                        <p className="text-xs text-gray-400">{value}/{badge.progress.target}</p>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
+        <p className="text-xs text-gray-500">
+          Scores come from the server; answers and streaks are recorded on this device.
+        </p>
+      </div>
+    </TaskViewLayout>
+  );
+};
+
+export default ProfilePage;
@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Calendar as CalendarIcon, Clock, Flame, Target, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchTaskSets, TaskSet } from '../../api/taskListService';
+import { toApiError } from '../../api/httpBase';
+import {
+  getAccuracyByTaskType,
+  getDailyAccuracy,
+  getDailyPracticeMinutes,
+  listDayKeys,
+  toDayKey
+} from '../../lib/practiceStats';
+import { getTaskType } from '../../components/TaskTypes';
+import TaskViewLayout from '../Task/TaskViewLayout';
+import { usePracticeHistory } from '../../hooks/usePracticeHistory';
+import { useDailyGoal } from '../../hooks/useDailyGoal';
+
+type RangePreset = '7' | '30' | '90' | 'custom';
+
+// Most task sets shown in the score chart
+const MAX_SCORED_TASK_SETS = 50;
+
+const accuracyConfig = {
+  accuracy: { label: 'Accuracy (%)', color: '#9333ea' }
+} satisfies ChartConfig;
+
+const scoreConfig = {
+  scored: { label: 'Scored', color: '#9333ea' },
+  max_score: { label: 'Max score', color: '#d8b4fe' }
+} satisfies ChartConfig;
+
+const taskTypeConfig = {
+  accuracy: { label: 'Accuracy (%)', color: '#f97316' }
+} satisfies ChartConfig;
+
+const minutesConfig = {
+  minutes: { label: 'Minutes', color: '#2563eb' }
+} satisfies ChartConfig;
+
+const formatDay = (day: string) => format(new Date(`${day}T00:00:00`), 'MMM d');
+
+interface StatCardProps {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+}
+
+const StatCard: React.FC<StatCardProps> = ({ icon, label, value }) => (
+  <Card>
+    <CardContent className="p-4 flex items-center space-x-3">
+      <div className="p-2 rounded-full bg-purple-100 text-purple-700">{icon}</div>
+      <div>
+        <p className="text-sm text-gray-500">{label}</p>
+        <p className="text-xl font-bold">{value}</p>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Learning statistics over a date range: accuracy, task set scores, accuracy
+ * per task type, practice minutes and streaks. Answers and practice time come
+ * from the practice history of this device, scores from the server.
+ */
+const ProgressPage: React.FC = () => {
+  const history = usePracticeHistory();
+  // Streaks count days the daily goal was met and don't depend on the selected range
+  const { streak: streaks } = useDailyGoal();
+
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [customFrom, setCustomFrom] = useState<Date | undefined>(subDays(new Date(), 29));
+  const [customTo, setCustomTo] = useState<Date | undefined>(new Date());
+
+  const [taskSets, setTaskSets] = useState<TaskSet[]>([]);
+  const [loadingTaskSets, setLoadingTaskSets] = useState(false);
+  const [taskSetsError, setTaskSetsError] = useState<string | null>(null);
+
+  // Selected range, whole days
+  const { from, to } = useMemo(() => {
+    if (preset === 'custom') {
+      const start = customFrom || subDays(new Date(), 29);
+      const end = customTo || new Date();
+      return start <= end ? { from: start, to: end } : { from: end, to: start };
+    }
+    return { from: subDays(new Date(), Number(preset) - 1), to: new Date() };
+  }, [preset, customFrom, customTo]);
+
+  const days = useMemo(() => listDayKeys(from, to), [from, to]);
+
+  const answersInRange = useMemo(() => {
+    const daySet = new Set(days);
+    return history.answers.filter(answer => daySet.has(toDayKey(answer.answeredAt)));
+  }, [history.answers, days]);
+
+  const dailyAccuracy = useMemo(
+    () => getDailyAccuracy(answersInRange, days).map(point => ({ ...point, label: formatDay(point.day) })),
+    [answersInRange, days]
+  );
+  const accuracyByType = useMemo(
+    () => getAccuracyByTaskType(answersInRange).map(point => ({
+      ...point,
+      label: getTaskType(point.taskType)?.label || point.taskType
+    })),
+    [answersInRange]
+  );
+  const dailyMinutes = useMemo(
+    () => getDailyPracticeMinutes(history.secondsByDay, days).map(point => ({ ...point, label: formatDay(point.day) })),
+    [history.secondsByDay, days]
+  );
+
+  const totalMinutes = dailyMinutes.reduce((sum, point) => sum + point.minutes, 0);
+  const correctCount = answersInRange.filter(answer => answer.isCorrect).length;
+  const overallAccuracy = answersInRange.length > 0
+    ? `${Math.round((correctCount / answersInRange.length) * 100)}%`
+    : '—';
+
+  // Scores of the task sets created in the range
+  useEffect(() => {
+    const loadTaskSets = async () => {
+      try {
+        setLoadingTaskSets(true);
+        setTaskSetsError(null);
+        const response = await fetchTaskSets({
+          page: 1,
+          limit: MAX_SCORED_TASK_SETS,
+          sort_by: 'created_at',
+          sort_order: 1,
+          start_date: format(from, 'yyyy-MM-dd'),
+          end_date: format(to, 'yyyy-MM-dd')
+        });
+        setTaskSets(response.items);
+      } catch (err) {
+        console.error('Error fetching task set scores:', err);
+        setTaskSetsError(toApiError(err).message || 'Failed to load task set scores.');
+      } finally {
+        setLoadingTaskSets(false);
+      }
+    };
+
+    loadTaskSets();
+  }, [from, to]);
+
+  const scoreData = taskSets
+    .filter(taskSet => taskSet.max_score !== undefined)
+    .map(taskSet => ({
+      label: taskSet.created_at ? format(new Date(taskSet.created_at), 'MMM d') : taskSet._id,
+      scored: taskSet.scored || 0,
+      max_score: taskSet.max_score || 0
+    }));
+
+  const renderEmpty = (message: string) => (
+    <p className="h-[240px] flex items-center justify-center text-sm text-gray-500">{message}</p>
+  );
+
+  return (
+    <TaskViewLayout title="My Progress" subtitle="See how your Nepali is coming along">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Date range */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+            <SelectTrigger className="w-[180px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {preset === 'custom' && (
+            <>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="justify-start text-left font-normal h-9">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {customFrom ? format(customFrom, 'PP') : 'From Date'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar mode="single" selected={customFrom} onSelect={setCustomFrom} initialFocus />
+                </PopoverContent>
+              </Popover>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="justify-start text-left font-normal h-9">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {customTo ? format(customTo, 'PP') : 'To Date'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar mode="single" selected={customTo} onSelect={setCustomTo} initialFocus />
+                </PopoverContent>
+              </Popover>
+            </>
+          )}
+        </div>
+
+        {/* Summary */}
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+          <StatCard icon={<Flame className="h-5 w-5" />} label="Current streak" value={`${streaks.current} ${streaks.current === 1 ? 'day' : 'days'}`} />
+          <StatCard icon={<Trophy className="h-5 w-5" />} label="Longest streak" value={`${streaks.longest} ${streaks.longest === 1 ? 'day' : 'days'}`} />
+          <StatCard icon={<Target className="h-5 w-5" />} label={`Accuracy (${answersInRange.length} answers)`} value={overallAccuracy} />
+          <StatCard icon={<Clock className="h-5 w-5" />} label="Practice time" value={`${totalMinutes} min`} />
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Accuracy over time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {answersInRange.length === 0 ? renderEmpty('No answers in this period.') : (
+                <ChartContainer config={accuracyConfig} className="h-[240px] w-full aspect-auto">
+                  <LineChart data={dailyAccuracy}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="accuracy" stroke="var(--color-accuracy)" strokeWidth={2} connectNulls dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Task set scores</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loadingTaskSets ? (
+                <div className="h-[240px] flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500"></div>
+                </div>
+              ) : taskSetsError ? renderEmpty(taskSetsError) : scoreData.length === 0 ? renderEmpty('No task sets in this period.') : (
+                <ChartContainer config={scoreConfig} className="h-[240px] w-full aspect-auto">
+                  <BarChart data={scoreData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="scored" fill="var(--color-scored)" radius={4} />
+                    <Bar dataKey="max_score" fill="var(--color-max_score)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Accuracy by task type</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {accuracyByType.length === 0 ? renderEmpty('No answers in this period.') : (
+                <ChartContainer config={taskTypeConfig} className="h-[240px] w-full aspect-auto">
+                  <BarChart data={accuracyByType} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Practice minutes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {totalMinutes === 0 ? renderEmpty('No practice time recorded in this period.') : (
+                <ChartContainer config={minutesConfig} className="h-[240px] w-full aspect-auto">
+                  <BarChart data={dailyMinutes}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Accuracy, practice time and streaks are recorded on this device.
+        </p>
+      </div>
+    </TaskViewLayout>
+  );
+};
+
+export default ProgressPage;
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { CheckCircle, RotateCcw } from 'lucide-react';
+import { TaskAnswerResult } from '../../api/taskService';
+import { toApiError } from '../../api/httpBase';
+import { DAILY_REVIEW_LIMIT, listReviewCards, removeReviewCard } from '../../api/reviewQueue';
+import { buildReviewDeck } from '../../lib/spacedRepetition';
+import TaskItem from '../../components/TaskItem.component';
+import ScriptToggle from '../../components/ScriptToggle';
+import TaskViewLayout from '../Task/TaskViewLayout';
+import { useTaskPrefetch } from '../../hooks/useTaskPrefetch';
+import { useTenantPath } from '../../hooks/useTenantPath';
+import { usePracticeTimer } from '../../hooks/usePracticeTimer';
+
+/**
+ * Daily review of missed tasks, mixed across task sets. The deck is put
+ * together once when the page opens; each answer reschedules its task.
+ */
+const ReviewPage: React.FC = () => {
+  const navigate = useNavigate();
+  const tenantPath = useTenantPath();
+
+  const [deck] = useState(() => buildReviewDeck(listReviewCards(), DAILY_REVIEW_LIMIT));
+  const taskIds = useMemo(() => deck.map(card => card.taskId), [deck]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [results, setResults] = useState<Record<string, TaskAnswerResult>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [finished, setFinished] = useState(false);
+
+  const { tasks, loadTask } = useTaskPrefetch(taskIds, currentIndex);
+  usePracticeTimer(deck.length > 0 && !finished);
+
+  // Load the current task when it isn't available yet
+  useEffect(() => {
+    if (finished || currentIndex >= deck.length || tasks[currentIndex]) return;
+
+    setLoadError(null);
+    loadTask(currentIndex).catch((error) => {
+      const apiError = toApiError(error);
+      console.error(`Error loading review task ${taskIds[currentIndex]}:`, apiError);
+      if (apiError.status === 404) {
+        // The task set was deleted; stop scheduling its tasks
+        removeReviewCard(taskIds[currentIndex]);
+        setLoadError('This task no longer exists and has been removed from your reviews.');
+      } else {
+        setLoadError(apiError.message || 'Failed to load task. Please try again.');
+      }
+    });
+  }, [currentIndex, deck.length, finished, tasks, loadTask, taskIds]);
+
+  const goToNext = () => {
+    setLoadError(null);
+    if (currentIndex >= deck.length - 1) {
+      setFinished(true);
+      return;
+    }
+    setCurrentIndex(currentIndex + 1);
+  };
+
+  const handleAnswerSubmitted = (taskId: string, isCorrect: boolean, _answer: unknown, result: TaskAnswerResult) => {
+    console.log(`Review answer for task ${taskId}. Correct: ${isCorrect}`);
+    setResults(previous => ({ ...previous, [taskId]: result }));
+  };
+
+  // Nothing due today: say when the next review is
+  const renderEmpty = () => {
+    const nextDue = listReviewCards().reduce<number | null>(
+      (earliest, card) => (earliest === null || card.dueAt < earliest ? card.dueAt : earliest),
+      null
+    );
+
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-md text-center">
+        <CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+        <h3 className="text-xl font-bold mb-2">Nothing to review today</h3>
+        <p className="text-gray-600 mb-6">
+          {nextDue
+            ? `Your next review is due on ${format(nextDue, 'MMM d')}.`
+            : 'Tasks you answer incorrectly will show up here for review.'}
+        </p>
+        <button
+          className="px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700"
+          onClick={() => navigate(tenantPath('/tasks'))}
+        >
+          Go to tasks
+        </button>
+      </div>
+    );
+  };
+
+  const renderSummary = () => {
+    const answered = Object.values(results);
+    const correctCount = answered.filter(result => result.is_correct).length;
+
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-md text-center">
+        <RotateCcw className="h-10 w-10 text-purple-600 mx-auto mb-3" />
+        <h3 className="text-xl font-bold mb-2">Review complete</h3>
+        <p className="text-gray-600 mb-6">
+          You reviewed {answered.length} of {deck.length} {deck.length === 1 ? 'task' : 'tasks'} and got {correctCount} right.
+          Missed tasks will come back tomorrow.
+        </p>
+        <button
+          className="px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700"
+          onClick={() => navigate(tenantPath('/dashboard'))}
+        >
+          Back to dashboard
+        </button>
+      </div>
+    );
+  };
+
+  const renderCurrentTask = () => {
+    if (loadError) {
+      return (
+        <div className="bg-white p-6 rounded-lg shadow-md text-center">
+          <p className="text-red-600 mb-4">{loadError}</p>
+          <button
+            className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300"
+            onClick={goToNext}
+          >
+            Skip
+          </button>
+        </div>
+      );
+    }
+
+    const task = tasks[currentIndex];
+    if (!task) {
+      return (
+        <div className="bg-white p-6 rounded-lg shadow-md flex flex-col items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500 mb-4"></div>
+          <p className="text-gray-600">Loading task...</p>
+        </div>
+      );
+    }
+
+    const card = deck[currentIndex];
+    return (
+      <TaskItem
+        key={card.taskId}
+        task={task}
+        onAnswerSubmitted={handleAnswerSubmitted}
+        onNext={goToNext}
+        taskSetId={card.taskSetId}
+      />
+    );
+  };
+
+  const renderContent = () => {
+    if (deck.length === 0) return renderEmpty();
+    if (finished) return renderSummary();
+
+    return (
+      <>
+        <div className="mb-6 flex justify-between items-center">
+          <ScriptToggle />
+          <span className="text-sm bg-purple-100 text-purple-800 px-3 py-1 rounded-full">
+            Review {currentIndex + 1} of {deck.length}
+          </span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+          <div
+            className="bg-purple-600 h-2 rounded-full transition-all"
+            style={{ width: `${(currentIndex / deck.length) * 100}%` }}
+          ></div>
+        </div>
+        {renderCurrentTask()}
+      </>
+    );
+  };
+
+  return (
+    <TaskViewLayout title="Daily Review" subtitle="Practice the tasks you missed before">
+      <div className="container mx-auto p-6">
+        {renderContent()}
+      </div>
+    </TaskViewLayout>
+  );
+};
+
+export default ReviewPage;
@@ -1,24 +1,47 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { useAuth } from '../../context/AuthContext';
-import { fetchTaskSet, fetchTask, fetchTestScores, TaskSet, Task } from '../../api/taskService';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import { CloudOff } from 'lucide-react';
+import {
+  fetchTestScores,
+  submitTaskAnswers,
+  TaskSet,
+  TaskAnswer,
+  TaskAnswerResult
+} from '../../api/taskService';
+import { toApiError } from '../../api/httpBase';
+import { fetchTaskSetOrOffline } from '../../api/offlineTaskSets';
+import { recordAnsweredTask } from '../../api/practiceHistory';
 import { getFileUrl } from '../../api/fileService';
 import TaskItem from '../../components/TaskItem.component';
+import TaskSetSummary from '../../components/Task/TaskSetSummary';
+import ExamReview from '../../components/Task/ExamReview';
+import ScriptToggle from '../../components/ScriptToggle';
 import TaskViewLayout from '../Task/TaskViewLayout';
+import { useTenantPath } from '../../hooks/useTenantPath';
+import { useTaskSession } from '../../hooks/useTaskSession';
+import { useTaskPrefetch } from '../../hooks/useTaskPrefetch';
+import { useAnswerOutbox } from '../../hooks/useAnswerOutbox';
+import { usePracticeTimer } from '../../hooks/usePracticeTimer';
+import { getTaskId } from '../../lib/taskAnswers';
 
 const TaskView: React.FC = () => {
   const { taskSetId } = useParams<{ taskSetId: string }>();
   const navigate = useNavigate();
+  const tenantPath = useTenantPath();
   const location = useLocation();
-  const { user, isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+
+  // Exam mode (?mode=exam) collects answers and checks them in one batch at the end
+  const isExamMode = searchParams.get('mode') === 'exam';
 
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [taskSet, setTaskSet] = useState<TaskSet | null>(null);
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [currentTaskIndex, setCurrentTaskIndex] = useState<number>(0);
   const [audioPreviewUrl, setAudioPreviewUrl] = useState<string | null>(null);
   const [loadingTasks, setLoadingTasks] = useState<boolean>(false);
+  const [showSummary, setShowSummary] = useState<boolean>(false);
+  const [submittingExam, setSubmittingExam] = useState<boolean>(false);
+  const [examError, setExamError] = useState<string | null>(null);
 
   // Score related states
   const [scores, setScores] = useState<any>(null);
@@ -26,13 +49,42 @@ const TaskView: React.FC = () => {
   const [maxScore, setMaxScore] = useState<number>(0);
   const [loadingScores, setLoadingScores] = useState<boolean>(false);
 
-  // Fetch task set data when component mounts
-  useEffect(() => {
-    if (!isAuthenticated || !user) {
-      navigate('/');
-      return;
+  // Position, answers and results are saved so the set can be resumed later
+  const {
+    currentTaskIndex,
+    answers,
+    results,
+    isCompleted,
+    savedSession,
+    setCurrentTaskIndex,
+    recordAnswer,
+    recordDraftAnswer,
+    recordResults,
+    markCompleted,
+    resume,
+    restart
+  } = useTaskSession(taskSetId, isExamMode ? 'exam' : 'practice');
+
+  // Scores would give away exam answers before the exam is submitted
+  const hideScores = isExamMode && !isCompleted;
+
+  // Time spent on the tasks counts as practice time, time on the summary doesn't
+  usePracticeTimer(!showSummary);
+
+  // Tasks are loaded through the query cache, with the next few prefetched in the background
+  const { tasks, loadTask } = useTaskPrefetch(taskSet?.tasks, currentTaskIndex);
+
+  // Answers queued offline are recorded, and the scores reconciled, once they reach the server
+  const { pendingCount, isOnline, isSyncing, syncNow } = useAnswerOutbox((synced) => {
+    const syncedHere = synced.filter(item => item.taskSetId === taskSetId);
+    syncedHere.forEach(item => recordAnswer(item.taskId, item.answer, item.result));
+    if (syncedHere.length > 0) {
+      fetchScores();
     }
+  });
 
+  // Fetch task set data when component mounts
+  useEffect(() => {
     if (!taskSetId) {
       setError('No task set ID provided');
       setLoading(false);
@@ -45,8 +97,9 @@ const TaskView: React.FC = () => {
         console.log('Starting to fetch task set with ID:', taskSetId);
 
         // Fetch the task set without including full tasks (for faster initial load)
-        // The API will still return task_ids because we set include_task_ids: true in the service
-        const taskSetData = await fetchTaskSet(taskSetId, user, { include_tasks: false });
+        // The API will still return task_ids because we set include_task_ids: true in the service.
+        // Sets downloaded for offline use are read from the device when the server can't be reached
+        const taskSetData = await fetchTaskSetOrOffline(taskSetId, { include_tasks: false });
         console.log('Task set data received:', taskSetData);
         setTaskSet(taskSetData);
 
@@ -59,37 +112,13 @@ const TaskView: React.FC = () => {
           if (object_name && folder) {
             // Start the audio URL fetch but don't await it yet - we'll process it in parallel
             console.log(`Fetching audio URL for object: ${object_name}, folder: ${folder}`);
-            audioPreviewPromise = getFileUrl(object_name, folder, user);
+            audioPreviewPromise = getFileUrl(object_name, folder);
           }
         }
 
-        // Check for tasks in the response
+        // Tasks themselves are loaded once the set is shown
         if (taskSetData.tasks && taskSetData.tasks.length > 0) {
           console.log('Tasks found in response:', taskSetData.tasks);
-
-          // If tasks are already included in the response, use them directly
-          // Convert task IDs to actual task objects if they're not already
-          if (typeof taskSetData.tasks[0] === 'string') {
-            // We have task IDs, need to fetch the first task
-            console.log('Tasks are IDs, fetching first task');
-            setLoadingTasks(true);
-            try {
-              const firstTask = await fetchTask(taskSetData.tasks[0], user);
-              console.log('First task loaded:', firstTask);
-
-              // Set the first task only
-              setTasks([firstTask]);
-              setLoadingTasks(false);
-            } catch (firstTaskErr) {
-              console.error('Error loading first task:', firstTaskErr);
-              setError('Failed to load task. Please try again.');
-              setLoadingTasks(false);
-            }
-          } else {
-            // Tasks are already full objects, use them directly
-            console.log('Tasks are full objects, using directly');
-            setTasks([taskSetData.tasks[0]]);
-          }
         } else {
           console.error('No tasks found in task set');
           setError('No tasks found in this task set');
@@ -119,116 +148,168 @@ const TaskView: React.FC = () => {
     };
 
     loadTaskSet();
-  }, [taskSetId, user, isAuthenticated, navigate]);
-
-  // Navigate to next task
-  const goToNextTask = async () => {
-    if (!taskSet?.tasks) return;
-
-    const nextIndex = currentTaskIndex + 1;
-    if (nextIndex < taskSet.tasks.length) {
-      // Check if we already have the next task loaded
-      if (nextIndex < tasks.length) {
-        // We already have this task loaded, just navigate to it
-        console.log(`Navigating to already loaded task at index ${nextIndex}`);
-        setCurrentTaskIndex(nextIndex);
-      } else {
-        // We need to fetch the next task
-        setLoadingTasks(true);
-        try {
-          // Check if the task is a string (ID) or an object
-          const nextTask = typeof taskSet.tasks[nextIndex] === 'string'
-            ? await fetchTask(taskSet.tasks[nextIndex], user)
-            : taskSet.tasks[nextIndex];
-
-          console.log('Next task loaded:', nextTask);
-
-          // Add the new task to our tasks array
-          setTasks(prevTasks => [...prevTasks, nextTask]);
-
-          // Navigate to the new task
-          setCurrentTaskIndex(nextIndex);
-        } catch (error) {
-          console.error('Error fetching next task:', error);
-          setError('Failed to load next task. Please try again.');
-          // Don't navigate if we couldn't fetch the task
-        } finally {
-          setLoadingTasks(false);
-        }
+  }, [taskSetId]);
+
+  // Navigate to a task, fetching it first if it hasn't been loaded yet
+  const goToTask = useCallback(async (index: number) => {
+    if (!taskSet?.tasks || index < 0 || index >= taskSet.tasks.length) return;
+
+    if (!tasks[index]) {
+      setLoadingTasks(true);
+      try {
+        await loadTask(index);
+      } catch (error) {
+        console.error('Error fetching task:', error);
+        setError('Failed to load task. Please try again.');
+        // Don't navigate if we couldn't fetch the task
+        return;
+      } finally {
+        setLoadingTasks(false);
       }
     }
+
+    setCurrentTaskIndex(index);
+  }, [taskSet, tasks, loadTask, setCurrentTaskIndex]);
+
+  // Load the current task when it isn't available yet, e.g. on first open or after restarting
+  useEffect(() => {
+    if (!taskSet?.tasks?.length || savedSession || error || tasks[currentTaskIndex]) return;
+    goToTask(currentTaskIndex);
+  }, [taskSet, savedSession, error, tasks, currentTaskIndex, goToTask]);
+
+  // Show the results of the set, loading any tasks the summary still needs
+  const openSummary = () => {
+    setShowSummary(true);
+    fetchScores();
+    taskSet?.tasks?.forEach((_, index) => {
+      loadTask(index).catch((error) => console.warn(`Failed to load task at index ${index}:`, error));
+    });
+  };
+
+  // Mark the set as complete once the learner moves past the last task
+  const finishTaskSet = () => {
+    // Exams are only complete once submitted from the review page
+    if (!isExamMode) {
+      markCompleted();
+    }
+    openSummary();
+  };
+
+  // Submit all collected exam answers in one batch and reveal the results
+  const handleSubmitExam = async () => {
+    if (!taskSetId || !taskSet?.tasks) return;
+
+    const examAnswers: TaskAnswer[] = taskSet.tasks
+      .map(taskRef => getTaskId(taskRef))
+      .filter(taskId => taskId && answers[taskId] !== undefined)
+      .map(taskId => ({
+        task_id: taskId,
+        user_answer: answers[taskId] as TaskAnswer['user_answer']
+      }));
+
+    try {
+      setSubmittingExam(true);
+      setExamError(null);
+      const submission = await submitTaskAnswers(taskSetId, examAnswers);
+
+      recordResults(submission.results || []);
+      // Exam answers count towards progress and reviews like practice answers do
+      (submission.results || []).forEach(result => {
+        const task = tasks.find(item => item && getTaskId(item) === result.task_id);
+        recordAnsweredTask({ taskId: result.task_id, taskType: task?.type || '', taskSetId, result });
+      });
+      markCompleted();
+      fetchScores();
+    } catch (err) {
+      console.error('Error submitting exam:', err);
+      setExamError(toApiError(err).message || 'Failed to submit exam. Please try again.');
+    } finally {
+      setSubmittingExam(false);
+    }
+  };
+
+  // Navigate to next task, finishing the set after the last one
+  const goToNextTask = () => {
+    if (taskSet?.tasks && currentTaskIndex >= taskSet.tasks.length - 1) {
+      finishTaskSet();
+      return;
+    }
+    goToTask(currentTaskIndex + 1);
+  };
+
+  // Leave the summary to retry a task
+  const handleReviewTask = (index: number) => {
+    setShowSummary(false);
+    goToTask(index);
   };
 
   // Navigate to previous task
   const goToPreviousTask = () => {
     if (currentTaskIndex > 0) {
       console.log(`Navigating to previous task at index ${currentTaskIndex - 1}`);
-      setCurrentTaskIndex(currentTaskIndex - 1);
+      // A resumed session may not have loaded earlier tasks yet
+      goToTask(currentTaskIndex - 1);
     }
   };
 
-  // Render current task based on its type
-  const renderCurrentTask = () => {
-    if (tasks.length === 0) {
-      if (loadingTasks) {
-        return (
-          <div className="bg-white p-6 rounded-lg shadow-md flex flex-col items-center justify-center">
-            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500 mb-4"></div>
-            <p className="text-gray-600">Loading task...</p>
-          </div>
-        );
+  // Continue a saved session from the task the user was on
+  const handleResume = () => {
+    const session = resume();
+    if (session && taskSet?.tasks) {
+      goToTask(Math.min(session.currentTaskIndex, taskSet.tasks.length - 1));
+      if (session.completedAt) {
+        openSummary();
       }
-      return null;
     }
+  };
 
-    // Check if the current task index is valid
-    if (currentTaskIndex >= tasks.length) {
-      if (loadingTasks) {
-        return (
-          <div className="bg-white p-6 rounded-lg shadow-md flex flex-col items-center justify-center">
-            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500 mb-4"></div>
-            <p className="text-gray-600">Loading next task...</p>
-          </div>
-        );
-      }
+  // Discard the saved session and start again from the first task
+  const handleRestart = () => {
+    restart();
+    setShowSummary(false);
+  };
 
-      // If we have tasks but the current task isn't loaded yet, try to load it
-      if (taskSet?.tasks && currentTaskIndex < taskSet.tasks.length) {
-        // Trigger loading of the current task
-        const loadCurrentTask = async () => {
-          setLoadingTasks(true);
-          try {
-            // Check if the task is a string (ID) or an object
-            const currentTaskData = taskSet.tasks[currentTaskIndex];
-            const task = typeof currentTaskData === 'string'
-              ? await fetchTask(currentTaskData, user)
-              : currentTaskData;
-
-            console.log(`Task at index ${currentTaskIndex} loaded:`, task);
-            setTasks(prevTasks => [...prevTasks, task]);
-          } catch (error) {
-            console.error('Error fetching task:', error);
-            setError('Failed to load task. Please try refreshing the page.');
-          } finally {
-            setLoadingTasks(false);
-          }
-        };
+  // Ask whether to continue a saved session before showing any task
+  const renderResumePrompt = () => {
+    const answeredCount = Object.keys(savedSession?.answers || {}).length;
 
-        // Call the function to load the task
-        loadCurrentTask();
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-md text-center">
+        <h3 className="text-xl font-bold mb-2">Resume where you left off?</h3>
+        <p className="text-gray-600 mb-6">
+          You were on task {(savedSession?.currentTaskIndex || 0) + 1} of {taskSet?.tasks?.length || 0}
+          {answeredCount > 0 && ` and have answered ${answeredCount} ${answeredCount === 1 ? 'task' : 'tasks'}`}.
+        </p>
+        <div className="flex justify-center space-x-4">
+          <button
+            className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300"
+            onClick={handleRestart}
+          >
+            Restart set
+          </button>
+          <button
+            className="px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700"
+            onClick={handleResume}
+          >
+            Resume
+          </button>
+        </div>
+      </div>
+    );
+  };
 
-        // Show loading indicator while fetching
-        return (
-          <div className="bg-white p-6 rounded-lg shadow-md flex flex-col items-center justify-center">
-            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500 mb-4"></div>
-            <p className="text-gray-600">Loading task...</p>
-          </div>
-        );
-      }
+  // Render current task based on its type
+  const renderCurrentTask = () => {
+    if (savedSession) {
+      return renderResumePrompt();
+    }
 
+    // Check if the current task has been loaded; it is fetched by the effect above otherwise
+    if (!tasks[currentTaskIndex]) {
       return (
-        <div className="p-4 bg-yellow-100 rounded-lg">
-          <p>Task not found. Please try refreshing the page.</p>
+        <div className="bg-white p-6 rounded-lg shadow-md flex flex-col items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500 mb-4"></div>
+          <p className="text-gray-600">Loading task...</p>
         </div>
       );
     }
@@ -247,13 +328,21 @@ const TaskView: React.FC = () => {
     console.log('Current task score data:', currentTaskScore);
     console.log('Set max score:', scores?.max_score);
 
+    const currentTaskId = currentTask.id || currentTask._id;
+
     // Use the TaskItem component to render the current task
     return (
       <TaskItem
         task={currentTask}
+        savedAnswer={answers[currentTaskId]}
+        savedResult={results[currentTaskId]}
         onAnswerSubmitted={handleAnswerSubmitted}
+        examMode={isExamMode && !isCompleted}
+        onAnswerCollected={recordDraftAnswer}
+        readOnly={isExamMode && isCompleted}
         onNext={goToNextTask}
-        score={currentTaskScore?.score}
+        taskSetId={taskSetId}
+        score={hideScores ? undefined : currentTaskScore?.score}
         maxScore={scores?.max_score || 50} // Use the set's max_score
       />
     );
@@ -261,11 +350,11 @@ const TaskView: React.FC = () => {
 
   // Fetch test scores
   const fetchScores = async () => {
-    if (!taskSetId || !user) return;
+    if (!taskSetId) return;
 
     try {
       setLoadingScores(true);
-      const scoresData = await fetchTestScores(taskSetId, user);
+      const scoresData = await fetchTestScores(taskSetId);
       console.log('Scores data:', scoresData);
 
       // Log score data structure for debugging
@@ -305,14 +394,15 @@ const TaskView: React.FC = () => {
 
   // Fetch scores when component mounts
   useEffect(() => {
-    if (taskSetId && user && isAuthenticated) {
+    if (taskSetId) {
       fetchScores();
     }
-  }, [taskSetId, user, isAuthenticated]);
+  }, [taskSetId]);
 
   // Handle answer submission
-  const handleAnswerSubmitted = (taskId: string, isCorrect: boolean) => {
+  const handleAnswerSubmitted = (taskId: string, isCorrect: boolean, answer: unknown, result: TaskAnswerResult) => {
     console.log(`Answer submitted for task ${taskId}. Correct: ${isCorrect}`);
+    recordAnswer(taskId, answer, result);
 
     // Fetch updated scores after answer submission
     fetchScores();
@@ -322,13 +412,67 @@ const TaskView: React.FC = () => {
 
   // Render the content inside the layout
   const renderContent = () => {
+    if (showSummary && taskSet?.tasks) {
+      return (
+        <div className="container mx-auto p-6">
+          {hideScores ? (
+            <ExamReview
+              taskRefs={taskSet.tasks}
+              tasks={tasks}
+              answers={answers}
+              submitting={submittingExam}
+              error={examError}
+              onEditTask={handleReviewTask}
+              onSubmit={handleSubmitExam}
+            />
+          ) : (
+            <TaskSetSummary
+              taskRefs={taskSet.tasks}
+              tasks={tasks}
+              answers={answers}
+              results={results}
+              scores={scores}
+              loadingScores={loadingScores}
+              onReviewTask={handleReviewTask}
+              onRestart={handleRestart}
+              onFinish={() => navigate(tenantPath('/tasks'))}
+            />
+          )}
+        </div>
+      );
+    }
+
     return (
       <div className="container mx-auto p-6">
         <div className="mb-6">
           <div className="flex justify-between items-center">
+            <ScriptToggle />
+
+            {/* Offline answers waiting to be submitted */}
+            {(!isOnline || pendingCount > 0) && (
+              <div className="flex items-center ml-4 text-sm bg-yellow-100 text-yellow-800 px-3 py-1 rounded-full">
+                <CloudOff className="h-4 w-4 mr-2" />
+                {!isOnline ? 'Offline' : 'Back online'}
+                {pendingCount > 0 && ` · ${pendingCount} answer${pendingCount === 1 ? '' : 's'} waiting to sync`}
+                {isOnline && pendingCount > 0 && (
+                  <button
+                    className="ml-2 underline disabled:opacity-50"
+                    onClick={() => syncNow()}
+                    disabled={isSyncing}
+                  >
+                    {isSyncing ? 'Syncing...' : 'Sync now'}
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Score display */}
             <div className="flex items-center ml-auto">
-              {loadingScores ? (
+              {hideScores ? (
+                <span className="text-sm bg-purple-100 text-purple-800 px-3 py-1 rounded-full">
+                  Exam mode
+                </span>
+              ) : loadingScores ? (
                 <div className="flex items-center text-gray-500">
                   <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-purple-500 mr-2"></div>
                   <span>Loading scores...</span>
@@ -376,7 +520,7 @@ const TaskView: React.FC = () => {
                       ? 'bg-purple-600'
                       : index < currentTaskIndex
                         ? 'bg-purple-300'
-                        : index < tasks.length
+                        : tasks[index]
                           ? 'bg-gray-200'
                           : 'bg-gray-300'
                   }`}
@@ -392,7 +536,7 @@ const TaskView: React.FC = () => {
               )}
 
               {/* Task score indicator */}
-              {scores && scores.tasks && tasks[currentTaskIndex] && (
+              {!hideScores && scores && scores.tasks && tasks[currentTaskIndex] && (
                 <div className="mr-3 flex items-center">
                   <span className={`inline-block w-2 h-2 rounded-full mr-1 ${
                     scores.tasks.find((t: any) => t.task_id === (tasks[currentTaskIndex].id || tasks[currentTaskIndex]._id))?.score > 0
@@ -411,6 +555,15 @@ const TaskView: React.FC = () => {
               )}
 
               Task {currentTaskIndex + 1} of {taskSet?.tasks?.length || 0}
+
+              {(isCompleted || (isExamMode && Object.keys(answers).length > 0)) && (
+                <button
+                  className="ml-3 text-purple-600 hover:text-purple-800 underline"
+                  onClick={openSummary}
+                >
+                  {hideScores ? 'Review answers' : 'View results'}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -425,7 +578,7 @@ const TaskView: React.FC = () => {
                 : 'bg-gray-100 text-gray-400 cursor-not-allowed'
             }`}
             onClick={goToPreviousTask}
-            disabled={currentTaskIndex === 0 || loadingTasks}
+            disabled={currentTaskIndex === 0 || loadingTasks || !!savedSession}
           >
             {loadingTasks ? (
               <span className="flex items-center">
@@ -439,20 +592,22 @@ const TaskView: React.FC = () => {
 
           <button
             className={`px-4 py-2 rounded-lg ${
-              taskSet?.tasks && currentTaskIndex < taskSet.tasks.length - 1
+              taskSet?.tasks && !savedSession
                 ? loadingTasks
                   ? 'bg-purple-400 text-white'
                   : 'bg-purple-600 text-white hover:bg-purple-700'
                 : 'bg-purple-300 text-white cursor-not-allowed'
             }`}
             onClick={goToNextTask}
-            disabled={!taskSet?.tasks || currentTaskIndex >= taskSet.tasks.length - 1 || loadingTasks}
+            disabled={!taskSet?.tasks || loadingTasks || !!savedSession}
           >
             {loadingTasks ? (
               <span className="flex items-center">
                 <span className="w-4 h-4 mr-2 border-t-2 border-b-2 border-white rounded-full animate-spin"></span>
                 Loading
               </span>
+            ) : taskSet?.tasks && currentTaskIndex >= taskSet.tasks.length - 1 ? (
+              'Finish'
             ) : (
               'Next'
             )}
@@ -474,7 +629,7 @@ const TaskView: React.FC = () => {
             <p>{error}</p>
             <button
               className="mt-4 bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600"
-              onClick={() => navigate('/dashboard')}
+              onClick={() => navigate(tenantPath('/dashboard'))}
             >
               Return to Dashboard
             </button>
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, Download, Pencil, Search, Trash2, Volume2, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  normalizeTags,
+  removeVocabularyEntry,
+  updateVocabularyEntry,
+  VocabularyEntry
+} from '../../api/vocabularyNotebook';
+import { downloadTextFile, toAnkiNotes, toVocabularyCsv, VocabularyExportRow } from '../../lib/vocabularyExport';
+import { normalizeDevanagari } from '../../lib/devanagari';
+import ScriptToggle from '../../components/ScriptToggle';
+import TaskViewLayout from '../Task/TaskViewLayout';
+import { useScript } from '../../context/ScriptContext';
+import { useTenantPath } from '../../hooks/useTenantPath';
+import { useVocabulary } from '../../hooks/useVocabulary';
+
+interface VocabularyRowProps {
+  entry: VocabularyEntry;
+  romanization: string;
+}
+
+/**
+ * One saved word, with its meaning and tags editable in place
+ */
+const VocabularyRow: React.FC<VocabularyRowProps> = ({ entry, romanization }) => {
+  const tenantPath = useTenantPath();
+  const [isEditing, setIsEditing] = useState(false);
+  const [meaning, setMeaning] = useState(entry.meaning);
+  const [tags, setTags] = useState(entry.tags.join(', '));
+
+  const startEditing = () => {
+    setMeaning(entry.meaning);
+    setTags(entry.tags.join(', '));
+    setIsEditing(true);
+  };
+
+  const saveChanges = () => {
+    updateVocabularyEntry(entry.id, { meaning: meaning.trim(), tags: tags.split(',') });
+    setIsEditing(false);
+  };
+
+  const playAudio = () => {
+    new Audio(entry.audioUrl).play().catch((error) => console.error('Error playing audio hint:', error));
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="text-lg font-medium">{entry.word}</TableCell>
+      <TableCell className="text-gray-600">{romanization}</TableCell>
+      <TableCell>
+        {isEditing ? (
+          <Input value={meaning} onChange={(e) => setMeaning(e.target.value)} aria-label="Meaning" />
+        ) : (
+          entry.meaning || <span className="text-gray-400">—</span>
+        )}
+      </TableCell>
+      <TableCell>
+        {isEditing ? (
+          <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Comma separated" aria-label="Tags" />
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {entry.tags.map(tag => (
+              <span key={tag} className="text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded-full">{tag}</span>
+            ))}
+          </div>
+        )}
+      </TableCell>
+      <TableCell>
+        {entry.taskSetId ? (
+          <Link to={tenantPath(`/tasks/${entry.taskSetId}`)} className="text-sm text-purple-600 hover:text-purple-800">
+            Task set
+          </Link>
+        ) : (
+          <span className="text-gray-400">—</span>
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center justify-end space-x-1">
+          {entry.audioUrl && (
+            <Button variant="ghost" size="icon" onClick={playAudio} aria-label={`Play ${entry.word}`}>
+              <Volume2 className="h-4 w-4" />
+            </Button>
+          )}
+          {isEditing ? (
+            <>
+              <Button variant="ghost" size="icon" onClick={saveChanges} aria-label="Save changes">
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setIsEditing(false)} aria-label="Cancel editing">
+                <X className="h-4 w-4" />
+              </Button>
+            </>
+          ) : (
+            <Button variant="ghost" size="icon" onClick={startEditing} aria-label={`Edit ${entry.word}`}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => removeVocabularyEntry(entry.id)}
+            aria-label={`Remove ${entry.word}`}
+          >
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+};
+
+/**
+ * The learner's vocabulary notebook: saved words with search, tag filters and export
+ */
+const VocabularyPage: React.FC = () => {
+  const { entries } = useVocabulary();
+  const { romanize } = useScript();
+  const [search, setSearch] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  const allTags = useMemo(() => normalizeTags(entries.flatMap(entry => entry.tags)).sort(), [entries]);
+
+  // Words matching the search (Devanagari, romanization, meaning or tag) and every selected tag
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(entry => {
+      if (!selectedTags.every(tag => entry.tags.includes(tag))) return false;
+      if (!query) return true;
+      return (
+        normalizeDevanagari(entry.word).includes(normalizeDevanagari(query)) ||
+        romanize(entry.word).toLowerCase().includes(query) ||
+        entry.meaning.toLowerCase().includes(query) ||
+        entry.tags.some(tag => tag.includes(query))
+      );
+    });
+  }, [entries, search, selectedTags, romanize]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(previous => previous.includes(tag) ? previous.filter(item => item !== tag) : [...previous, tag]);
+  };
+
+  // Exports contain the words currently shown
+  const exportRows = (): VocabularyExportRow[] => filteredEntries.map(entry => ({
+    word: entry.word,
+    romanization: romanize(entry.word),
+    meaning: entry.meaning,
+    tags: entry.tags,
+    audioUrl: entry.audioUrl,
+    taskSetId: entry.taskSetId
+  }));
+
+  const exportCsv = () => {
+    downloadTextFile(toVocabularyCsv(exportRows()), 'nepali-vocabulary.csv', 'text/csv');
+  };
+
+  const exportAnki = () => {
+    downloadTextFile(toAnkiNotes(exportRows()), 'nepali-vocabulary-anki.txt', 'text/plain');
+  };
+
+  return (
+    <TaskViewLayout title="Vocabulary" subtitle="Words you saved from your tasks">
+      <div className="container mx-auto p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div className="relative flex-1 min-w-[220px] max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search words, meanings or tags"
+              className="pl-9"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <ScriptToggle />
+            <Button variant="outline" onClick={exportCsv} disabled={filteredEntries.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="outline" onClick={exportAnki} disabled={filteredEntries.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Anki
+            </Button>
+          </div>
+        </div>
+
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {allTags.map(tag => (
+              <button
+                key={tag}
+                className={`px-3 py-1 rounded-full border text-sm ${
+                  selectedTags.includes(tag)
+                    ? 'bg-purple-600 text-white border-purple-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-purple-400'
+                }`}
+                onClick={() => toggleTag(tag)}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          {entries.length === 0 ? (
+            <p className="p-6 text-center text-gray-600">
+              No saved words yet. Use the bookmark button on any task to save a word.
+            </p>
+          ) : filteredEntries.length === 0 ? (
+            <p className="p-6 text-center text-gray-600">No words match your search.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Word</TableHead>
+                  <TableHead>Romanization</TableHead>
+                  <TableHead>Meaning</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEntries.map(entry => (
+                  <VocabularyRow key={entry.id} entry={entry} romanization={romanize(entry.word)} />
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+    </TaskViewLayout>
+  );
+};
+
+export default VocabularyPage;
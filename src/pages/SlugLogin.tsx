@@ -3,27 +3,26 @@ import React, { useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
 import TenantLogin from "@/components/TenantLogin";
+import { useLoginRedirect } from "@/hooks/useLoginRedirect";
 
 const SlugLogin: React.FC = () => {
   const { slug } = useParams<{ slug: string }>();
-  const { isAuthenticated, setTenantSlug } = useAuth();
+  const { isAuthenticated } = useAuth();
   const navigate = useNavigate();
-  
+  const getRedirectPath = useLoginRedirect();
+
+  // TenantRoute has already made this slug the active tenant
   useEffect(() => {
-    if (slug) {
-      setTenantSlug(slug);
-    }
-    
-    if (isAuthenticated) {
-      navigate("/dashboard");
+    if (slug && isAuthenticated) {
+      navigate(getRedirectPath(slug), { replace: true });
     }
-  }, [slug, isAuthenticated, navigate, setTenantSlug]);
+  }, [slug, isAuthenticated, navigate, getRedirectPath]);
   
   return (
     <div className="min-h-screen flex flex-col md:flex-row">
       {/* Left side - Login Form */}
       <div className="w-full md:w-1/3 flex items-center justify-center p-4 md:p-8 login-background">
-        <TenantLogin initialSlug={slug || ""} />
+        <TenantLogin key={slug} initialSlug={slug || ""} />
       </div>
       
       {/* Right side - App Showcase */}
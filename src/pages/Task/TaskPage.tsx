@@ -1,7 +1,5 @@
 
-import React, { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useAuth } from '@/context/AuthContext';
+import React from 'react';
 import TaskList from '@/components/Task/TaskList';
 import { SidebarProvider, SidebarTrigger, SidebarInset } from '@/components/ui/sidebar';
 import SideNavigation from '@/components/Navigation/SideNavigation';
@@ -10,20 +8,6 @@ import SideNavigation from '@/components/Navigation/SideNavigation';
  * Page component for displaying task sets
  */
 const TaskPage: React.FC = () => {
-  const { isAuthenticated } = useAuth();
-  const navigate = useNavigate();
-
-  // Redirect to login if not authenticated
-  useEffect(() => {
-    if (!isAuthenticated) {
-      navigate('/');
-    }
-  }, [isAuthenticated, navigate]);
-
-  if (!isAuthenticated) {
-    return null;
-  }
-
   return (
     <SidebarProvider>
       <div className="flex min-h-screen w-full bg-gray-50">
@@ -3,23 +3,31 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { SidebarProvider, SidebarTrigger, SidebarInset } from '@/components/ui/sidebar';
 import SideNavigation from '@/components/Navigation/SideNavigation';
 import { ArrowLeft } from 'lucide-react';
+import { useTenantPath } from '@/hooks/useTenantPath';
 
 interface TaskViewLayoutProps {
   children: React.ReactNode;
+  title?: string;
+  subtitle?: string;
 }
 
 /**
  * Layout component for task view pages that includes side navigation and back button
  */
-const TaskViewLayout: React.FC<TaskViewLayoutProps> = ({ children }) => {
+const TaskViewLayout: React.FC<TaskViewLayoutProps> = ({
+  children,
+  title = 'Task Details',
+  subtitle = 'Complete your learning tasks'
+}) => {
   const navigate = useNavigate();
+  const tenantPath = useTenantPath();
   const location = useLocation();
   
   // Check if we came from the tasks list page
   const fromTasksList = location.state?.from === 'tasks';
   
   const handleBackClick = () => {
-    navigate('/tasks');
+    navigate(tenantPath('/tasks'));
   };
 
   return (
@@ -42,8 +50,8 @@ const TaskViewLayout: React.FC<TaskViewLayoutProps> = ({ children }) => {
                     </button>
                   )}
                   <div>
-                    <h1 className="text-2xl font-bold text-purple-700">Task Details</h1>
-                    <p className="text-gray-500">Complete your learning tasks</p>
+                    <h1 className="text-2xl font-bold text-purple-700">{title}</h1>
+                    <p className="text-gray-500">{subtitle}</p>
                   </div>
                 </div>
                 <SidebarTrigger />
@@ -0,0 +1,17 @@
+export interface TenantTheme {
+  primary: string;   // Buttons, headings and links (replaces nepali-red)
+  secondary: string; // Gradient end and highlights (replaces nepali-orange)
+  accent: string;    // Secondary actions (replaces nepali-blue)
+  dark: string;      // Titles on light backgrounds (replaces nepali-maroon)
+}
+
+export interface TenantConfig {
+  tenantId: string;
+  slug: string;
+  displayName: string;
+  logoUrl?: string;
+  loginBackgroundUrl?: string;
+  theme: Partial<TenantTheme>; // Colors left out keep the default palette
+  enabledTaskTypes?: string[]; // All task types are enabled when omitted
+  defaultLanguage: string;
+}
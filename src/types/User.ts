@@ -5,6 +5,8 @@ export interface UserData {
   email: string;
   role: string;
   token: string;
+  refreshToken?: string;
+  tokenExpiresAt?: number; // Epoch milliseconds at which `token` expires
   tenantSlug?: string;
   tenantId?: string;
   tenantLabel?: string;
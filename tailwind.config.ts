@@ -64,11 +64,11 @@ export default {
 					ring: 'hsl(var(--sidebar-ring))'
 				},
 				nepali: {
-					red: '#dc2626',
-					blue: '#1e3a8a',
-					yellow: '#fbbf24',
-					orange: '#ea580c',
-					maroon: '#7f1d1d',
+					red: 'hsl(var(--nepali-red) / <alpha-value>)',
+					blue: 'hsl(var(--nepali-blue) / <alpha-value>)',
+					yellow: 'hsl(var(--nepali-yellow) / <alpha-value>)',
+					orange: 'hsl(var(--nepali-orange) / <alpha-value>)',
+					maroon: 'hsl(var(--nepali-maroon) / <alpha-value>)',
 				}
 			},
 			borderRadius: {
@@ -15,6 +15,10 @@ export default defineConfig(({ mode }) => ({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  build: {
+    // Lists the hashed bundles for the service worker to precache (public/sw.js)
+    manifest: 'asset-manifest.json',
+  },
   server: {
     port: 8080,
     host: "::"